@@ -1,22 +1,57 @@
 // MotherboardAccurate.tsx
-import { Suspense, useMemo, useRef, useState, useEffect } from "react";
+import { Component, Suspense, createContext, useContext, useImperativeHandle, useMemo, useRef, useState, useEffect, useLayoutEffect } from "react";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import {
   Html,
   useProgress,
   PerspectiveCamera,
   Text,
+  useGLTF,
 } from "@react-three/drei";
 import * as THREE from "three";
-import { useNavigate } from 'react-router-dom';
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { GTAOPass } from "three/examples/jsm/postprocessing/GTAOPass.js";
+import { OutlinePass } from "three/examples/jsm/postprocessing/OutlinePass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import BoardInfoCard from '../src/components/BoardInfoCard';
+import BoardNavigator from '../src/components/BoardNavigator';
+import QualityPanel from '../src/components/QualityPanel';
+import { useCandidate } from '../src/context/candidate';
+import { BOARD_INFO } from '../src/data/boardInfo';
+import { BOARD_PART_NAMES, DOMAIN_REGISTRY, getDomain, type BoardPart, type DomainDefinition, type DomainId } from '../src/domains/registry';
+import { easeOutCubic } from '../src/animation/easing';
+import { useCameraController, type CameraPose } from '../src/hooks/useCameraController';
+import { QUALITY_SETTINGS, useBoardQuality, type QualitySettings } from '../src/hooks/useBoardQuality';
+import { RENDER_BUDGET, useRenderBudget, type RenderStats } from '../src/hooks/useRenderBudget';
+import { clearFlyOut, peekFlyOut, rememberFlyOut } from '../src/services/boardSession';
+import { isComplete, loadBoardProgress, type DomainProgress } from '../src/services/domainProgress';
+import { DEFAULT_BOARD_SEED, createRandom, type Random } from '../src/utils/random';
+import motherboardModelUrl from '../src/assets/motherboard.glb?url';
 
 /*
   Highly-detailed primitives-only motherboard model.
   - Face of the board is parallel to screen (rotated X by 90deg internally)
   - Camera locked (no orbit controls) so layout looks consistent
   - Contains many primitives positioned to match the provided image layout
+  - High quality swaps in src/assets/motherboard.glb; the primitives remain the
+    board for lower tiers and the fallback when the model fails to load
 */
 
+/*
+  Quality tier settings (src/hooks/useBoardQuality) and whether the screen is
+  phone-sized, shared with every part that trims its detail or framing
+*/
+const BoardQualityContext = createContext<{ settings: QualitySettings, compact: boolean }>({
+  settings: QUALITY_SETTINGS.high,
+  compact: false,
+});
+
+/* Lights (LEDs, signal pulses) are drawn brighter than white so bloom, which starts at 1.0, only picks them up */
+const GLOW: [number, number, number] = [3, 3, 3];
+
 /* ---------- Loader ---------- */
 function Loader() {
   const { progress } = useProgress();
@@ -29,9 +64,78 @@ function Loader() {
   );
 }
 
+/* ---------- Instancing ---------- */
+
+/* One copy of a shared primitive; size scales the unit box or cylinder */
+interface PartInstance {
+  position: [number, number, number];
+  size: [number, number, number];
+  rotationY?: number;
+  /* Multiplied with the material colour, so leave the material white when set */
+  color?: string;
+}
+
+/*
+  Draws every instance in one draw call with the material passed as a child.
+  Repeated detail (pins, traces, SMDs) goes through here so the board stays
+  inside the render budget on low-end phones.
+*/
+function InstancedParts({
+  parts,
+  shape = "box",
+  segments = 12,
+  castShadow = false,
+  children,
+}: {
+  parts: PartInstance[],
+  shape?: "box" | "cylinder",
+  segments?: number,
+  castShadow?: boolean,
+  children: React.ReactNode,
+}) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dummy = new THREE.Object3D();
+    const color = new THREE.Color();
+    parts.forEach((part, i) => {
+      dummy.position.set(...part.position);
+      dummy.rotation.set(0, part.rotationY ?? 0, 0);
+      dummy.scale.set(...part.size);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+      if (part.color) mesh.setColorAt(i, color.set(part.color));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [parts]);
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, parts.length]} castShadow={castShadow}>
+      {shape === "box" ? <boxGeometry /> : <cylinderGeometry args={[0.5, 0.5, 1, segments]} />}
+      {children}
+    </instancedMesh>
+  );
+}
+
 /* ---------- Low-level parts ---------- */
 
 function PCB({ width = 14, depth = 12, thickness = 0.08 }) {
+  const gridLines = useMemo<PartInstance[]>(() => [
+    ...Array.from({ length: 20 }, (_, i): PartInstance => ({
+      position: [-width / 2 + i * (width / 19), thickness / 2 + 0.001, 0],
+      size: [0.01, 0.001, depth],
+    })),
+    ...Array.from({ length: 16 }, (_, i): PartInstance => ({
+      position: [0, thickness / 2 + 0.001, -depth / 2 + i * (depth / 15)],
+      size: [width, 0.001, 0.01],
+    })),
+  ], [width, depth, thickness]);
+  const { settings } = useContext(BoardQualityContext);
+
   return (
     <group>
       {/* Main PCB substrate - proper green color */}
@@ -46,18 +150,11 @@ function PCB({ width = 14, depth = 12, thickness = 0.08 }) {
       </mesh>
       
       {/* PCB surface texture grid pattern */}
-      {Array.from({ length: 20 }).map((_, i) => (
-        <mesh key={`grid-h-${i}`} position={[-width/2 + i * (width/19), thickness/2 + 0.001, 0]}>
-          <boxGeometry args={[0.01, 0.001, depth]} />
+      {settings.gridLines && (
+        <InstancedParts parts={gridLines}>
           <meshStandardMaterial color={"#1a3d0a"} transparent opacity={0.3} />
-        </mesh>
-      ))}
-      {Array.from({ length: 16 }).map((_, i) => (
-        <mesh key={`grid-v-${i}`} position={[0, thickness/2 + 0.001, -depth/2 + i * (depth/15)]}>
-          <boxGeometry args={[width, 0.001, 0.01]} />
-          <meshStandardMaterial color={"#1a3d0a"} transparent opacity={0.3} />
-        </mesh>
-      ))}
+        </InstancedParts>
+      )}
     </group>
   );
 }
@@ -129,6 +226,11 @@ function PCISlot({ pos = [-4.8, 0.08, -1.4], length = 5.4, color = "#e6d6b2" } :
 
 /* Blue PCI-E slots like in reference image */
 function PCIESlot({ pos = [0, 0.08, 4.2], length = 9.6 } : { pos: [number, number, number], length?: number}) {
+  const pins = useMemo(() => Array.from({ length: Math.floor(length / 0.1) }, (_, i): PartInstance => ({
+    position: [-length / 2 + i * 0.1, 0.08, 0],
+    size: [0.05, 0.04, 0.2],
+  })), [length]);
+
   return (
     <group position={pos}>
       <mesh castShadow>
@@ -140,12 +242,9 @@ function PCIESlot({ pos = [0, 0.08, 4.2], length = 9.6 } : { pos: [number, numbe
         <meshStandardMaterial color={"#1E40AF"} metalness={0.55} roughness={0.18} />
       </mesh>
       {/* PCI-E connector pins */}
-      {Array.from({ length: Math.floor(length / 0.1) }).map((_, i) => (
-        <mesh key={i} position={[-length/2 + i * 0.1, 0.08, 0]}>
-          <boxGeometry args={[0.05, 0.04, 0.2]} />
-          <meshStandardMaterial color={"#FFD700"} metalness={0.9} roughness={0.1} />
-        </mesh>
-      ))}
+      <InstancedParts parts={pins}>
+        <meshStandardMaterial color={"#FFD700"} metalness={0.9} roughness={0.1} />
+      </InstancedParts>
     </group>
   );
 }
@@ -202,34 +301,59 @@ function Heatsink({ pos = [1.6, 0.3, -0.5], w = 2.2, h = 0.6, d = 1.8, fins = 9
 //   );
 // }
 
-/* Capacitor with blue top */
-function CapBlue({ pos = [0, 0.22, 0], h = 0.36, r = 0.14 }: { pos?: [number, number, number], h?: number, r?: number }) {
+/* Capacitors with blue tops: all bodies in one draw call, all tops in another */
+function CapsBlue({ caps }: { caps: { pos: [number, number, number], h?: number, r?: number }[] }) {
+  const { bodies, tops } = useMemo(() => ({
+    bodies: caps.map(({ pos, h = 0.36, r = 0.14 }): PartInstance => ({
+      position: pos,
+      size: [r * 2, h, r * 2],
+    })),
+    tops: caps.map(({ pos, h = 0.36, r = 0.14 }): PartInstance => ({
+      position: [pos[0], pos[1] + h / 2 + 0.01, pos[2]],
+      size: [r * 1.8, 0.02, r * 1.8],
+    })),
+  }), [caps]);
+
   return (
-    <group position={pos as [number, number, number]}>
-      <mesh position={[0, 0, 0]} castShadow>
-        <cylinderGeometry args={[r, r, h, 24]} />
+    <group>
+      <InstancedParts parts={bodies} shape="cylinder" segments={24} castShadow>
         <meshStandardMaterial color={"#183a6b"} metalness={0.45} roughness={0.22} />
-      </mesh>
-      <mesh position={[0, h / 2 + 0.01, 0]} castShadow>
-        <cylinderGeometry args={[r * 0.9, r * 0.9, 0.02, 20]} />
+      </InstancedParts>
+      <InstancedParts parts={tops} shape="cylinder" segments={20} castShadow>
         <meshStandardMaterial color={"#69a3ff"} metalness={0.7} roughness={0.15} />
-      </mesh>
+      </InstancedParts>
     </group>
   );
 }
 
-/* Surface Mount Device (SMD) components */
-function SMDComponent({ pos = [0, 0.05, 0], size = [0.2, 0.05, 0.1], color = "#333" }: { pos?: [number, number, number], size?: [number, number, number], color?: string }) {
+/* Surface Mount Device (SMD) components, coloured per instance */
+function SMDComponents({ parts }: { parts: PartInstance[] }) {
   return (
-    <mesh position={pos as [number, number, number]} castShadow>
-      <boxGeometry args={size as [number, number, number]} />
-      <meshStandardMaterial color={color} metalness={0.3} roughness={0.6} />
-    </mesh>
+    <InstancedParts parts={parts} castShadow>
+      <meshStandardMaterial metalness={0.3} roughness={0.6} />
+    </InstancedParts>
   );
 }
 
 /* Integrated Circuit (IC) chip */
 function ICChip({ pos = [0, 0.08, 0], size = [0.8, 0.12, 0.8], pins = 16 }: { pos?: [number, number, number], size?: [number, number, number], pins?: number }) {
+  const [width, height, depth] = size;
+  const pinParts = useMemo(() => Array.from({ length: pins }, (_, i): PartInstance => {
+    const side = Math.floor(i / (pins / 4));
+    const pinOnSide = i % (pins / 4);
+    let x = 0, z = 0;
+
+    switch(side) {
+      case 0: x = -width/2 - 0.05; z = -depth/2 + (pinOnSide * depth/(pins/4 - 1)); break;
+      case 1: z = depth/2 + 0.05; x = -width/2 + (pinOnSide * width/(pins/4 - 1)); break;
+      case 2: x = width/2 + 0.05; z = depth/2 - (pinOnSide * depth/(pins/4 - 1)); break;
+      case 3: z = -depth/2 - 0.05; x = width/2 - (pinOnSide * width/(pins/4 - 1)); break;
+    }
+
+    return { position: [x, -height/2, z], size: [0.05, 0.02, 0.02] };
+  }), [width, height, depth, pins]);
+  const { settings } = useContext(BoardQualityContext);
+
   return (
     <group position={pos as [number, number, number]}>
       {/* Main chip body */}
@@ -239,25 +363,11 @@ function ICChip({ pos = [0, 0.08, 0], size = [0.8, 0.12, 0.8], pins = 16 }: { po
       </mesh>
       
       {/* IC pins */}
-      {Array.from({ length: pins }).map((_, i) => {
-        const side = Math.floor(i / (pins / 4));
-        const pinOnSide = i % (pins / 4);
-        let x = 0, z = 0;
-        
-        switch(side) {
-          case 0: x = -size[0]/2 - 0.05; z = -size[2]/2 + (pinOnSide * size[2]/(pins/4 - 1)); break;
-          case 1: z = size[2]/2 + 0.05; x = -size[0]/2 + (pinOnSide * size[0]/(pins/4 - 1)); break;
-          case 2: x = size[0]/2 + 0.05; z = size[2]/2 - (pinOnSide * size[2]/(pins/4 - 1)); break;
-          case 3: z = -size[2]/2 - 0.05; x = size[0]/2 - (pinOnSide * size[0]/(pins/4 - 1)); break;
-        }
-        
-        return (
-          <mesh key={i} position={[x, -size[1]/2, z]} castShadow>
-            <boxGeometry args={[0.05, 0.02, 0.02]} />
-            <meshStandardMaterial color={"#C0C0C0"} metalness={0.9} roughness={0.1} />
-          </mesh>
-        );
-      })}
+      {settings.icPins && (
+        <InstancedParts parts={pinParts} castShadow>
+          <meshStandardMaterial color={"#C0C0C0"} metalness={0.9} roughness={0.1} />
+        </InstancedParts>
+      )}
       
       {/* IC label dot */}
       <mesh position={[-size[0]/3, size[1]/2 + 0.001, -size[2]/3]}>
@@ -281,13 +391,12 @@ function Battery({ pos = [-3.6, 0.12, 3.6], radius = 0.5 }: { pos?: [number, num
   );
 }
 
-/* Small surface resistor (dark grey rectangle) */
-function SmallRes({ pos = [0, 0.12, 0], size = [0.36, 0.12, 0.16] }: { pos?: [number, number, number], size?: [number, number, number] }) {
+/* Small surface resistors (dark grey rectangles) */
+function SmallResistors({ parts }: { parts: PartInstance[] }) {
   return (
-    <mesh position={pos as [number, number, number]} castShadow>
-      <boxGeometry args={size as [number, number, number]} />
+    <InstancedParts parts={parts} castShadow>
       <meshStandardMaterial color={"#555"} metalness={0.15} roughness={0.55} />
-    </mesh>
+    </InstancedParts>
   );
 }
 
@@ -337,6 +446,34 @@ function PowerHeader({ pos = [0, 0.2, 0], size = [1.6, 0.36, 0.4] } : { pos: [nu
   );
 }
 
+/* Set once a pointer has moved past the tap threshold or a pinch has started, until every pointer lifts */
+interface GestureState {
+  moved: boolean;
+}
+
+/*
+  Shared with every domain part: the domain focused from the keyboard overlay
+  gets the same highlight as a hovered one, a click that ends a tilt or pinch
+  is not a domain click, each label shows the candidate's saved progress, and
+  hovering a part reports back to the board so it can light the signal path.
+*/
+const BoardInteractionContext = createContext<{
+  focusedDomain: DomainId | null,
+  gesture: React.RefObject<GestureState>,
+  progress: Partial<Record<DomainId, DomainProgress>>,
+  onHoverDomain: (domain: DomainId, hovered: boolean) => void,
+  /* Card anchored above one domain's part, for deep links */
+  domainPanel: { domain: DomainId, content: React.ReactNode } | null,
+}>({
+  focusedDomain: null,
+  gesture: { current: { moved: false } },
+  progress: {},
+  onHoverDomain: () => {},
+  domainPanel: null,
+});
+
+const domainObjectName = (domain: DomainId) => `domain:${domain}`;
+
 /* Clickable Component Wrapper */
 function ClickableComponent({ 
   children, 
@@ -345,25 +482,42 @@ function ClickableComponent({
   onDomainClick 
 }: { 
   children: React.ReactNode, 
-  domain: string, 
+  domain: DomainId, 
   position: [number, number, number],
-  onDomainClick: (domain: string, position: [number, number, number]) => void 
+  onDomainClick: (domain: DomainId, position: [number, number, number]) => void 
 }) {
   const [hovered, setHovered] = useState(false);
+  const { focusedDomain, gesture, onHoverDomain, domainPanel } = useContext(BoardInteractionContext);
+  const { settings } = useContext(BoardQualityContext);
+  const highlighted = hovered || focusedDomain === domain;
   
   return (
     <group 
+      name={domainObjectName(domain)}
       position={position}
       onClick={(e) => {
         e.stopPropagation();
+        if (gesture.current.moved) return;
         onDomainClick(domain, position);
       }}
-      onPointerEnter={() => setHovered(true)}
-      onPointerLeave={() => setHovered(false)}
-      scale={hovered ? 1.05 : 1}
+      onPointerEnter={() => {
+        setHovered(true);
+        onHoverDomain(domain, true);
+      }}
+      onPointerLeave={() => {
+        setHovered(false);
+        onHoverDomain(domain, false);
+      }}
+      scale={highlighted ? 1.05 : 1}
     >
       {children}
-      {hovered && (
+      {domainPanel?.domain === domain && (
+        <Html position={[0, 0.8, 0]} zIndexRange={[20, 0]}>
+          {domainPanel.content}
+        </Html>
+      )}
+      {/* Tiers with the outline pass draw that round the part instead */}
+      {highlighted && !settings.outline && (
         <mesh position={[0, 0.1, 0]}>
           <sphereGeometry args={[0.05]} />
           <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={0.5} />
@@ -373,20 +527,372 @@ function ClickableComponent({
   );
 }
 
+const LED_SIZE = 0.08;
+const LED_GAP = 0.06;
+
+/*
+  Domain name on the silkscreen with a row of status LEDs under it, one per
+  question: green once submitted, dark red until then. The name turns green
+  when every question in the domain is in.
+*/
+function DomainLabel({ domain, position, fontSize }: {
+  domain: DomainId,
+  position: [number, number, number],
+  fontSize: number,
+}) {
+  const { progress } = useContext(BoardInteractionContext);
+  const domainProgress = progress[domain];
+
+  const leds = useMemo<PartInstance[]>(() => {
+    const questions = domainProgress?.questions ?? [];
+    const pitch = LED_SIZE + LED_GAP;
+    const start = -((questions.length - 1) * pitch) / 2;
+    return questions.map((question, i) => ({
+      position: [start + i * pitch, 0, fontSize * 0.9],
+      size: [LED_SIZE, 0.03, LED_SIZE],
+      color: question.submitted ? "#22c55e" : "#5a1010",
+    }));
+  }, [domainProgress, fontSize]);
+
+  return (
+    <group position={position}>
+      <Text
+        fontSize={fontSize}
+        color={domainProgress && isComplete(domainProgress) ? "#4ade80" : "#ffffff"}
+        anchorX="center"
+        anchorY="middle"
+        rotation={[-Math.PI / 2, 0, 0]}
+      >
+        {getDomain(domain).label.toLowerCase()}
+      </Text>
+      {leds.length > 0 && (
+        // Unlit so the submitted LEDs read as lit whatever the scene lighting
+        <InstancedParts key={leds.length} parts={leds}>
+          <meshBasicMaterial color={GLOW} toneMapped={false} />
+        </InstancedParts>
+      )}
+    </group>
+  );
+}
+
+/*
+  Invisible hover areas over the decorative parts listed in src/data/boardInfo.
+  Hovering shows the part's card; a click or tap pins it open (and makes its
+  link usable) until it is closed or tapped again.
+*/
+function BoardInfoHotspots() {
+  const { gesture } = useContext(BoardInteractionContext);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [pinned, setPinned] = useState<string | null>(null);
+  const open = BOARD_INFO.find((info) => info.id === (pinned ?? hovered));
+
+  return (
+    <group>
+      {BOARD_INFO.map((info) => (
+        <mesh
+          key={info.id}
+          position={info.position}
+          visible={false} // Still hit by the raycaster
+          onPointerEnter={(e) => {
+            e.stopPropagation();
+            setHovered(info.id);
+          }}
+          onPointerLeave={() => setHovered((current) => (current === info.id ? null : current))}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (gesture.current.moved) return;
+            setPinned((current) => (current === info.id ? null : info.id));
+          }}
+        >
+          <boxGeometry args={info.size} />
+        </mesh>
+      ))}
+      {open && (
+        <Html position={[open.position[0], open.position[1] + open.size[1] / 2, open.position[2]]} zIndexRange={[20, 0]}>
+          <BoardInfoCard info={open} onClose={open.id === pinned ? () => setPinned(null) : undefined} />
+        </Html>
+      )}
+    </group>
+  );
+}
+
+/* ---------- Signal pulses ---------- */
+
+const PULSE_COUNT = 6;
+const PULSE_SPEED = 4; // Board units per second
+const SIGNAL_HEIGHT = 0.06; // Just above the copper traces
+const SIGNAL_FADE = 7; // Glow change per second while fading in or out
+const MAX_ROUTE_SEGMENTS = 24;
+
+/* Where signals start: the CPU, or the 24-pin header when the CPU itself is the target */
+const CPU_POSITION: [number, number, number] = [3.6, 0, 1.0];
+const ATX_POWER_POSITION: [number, number, number] = [4.5, 0, -5.2];
+
+/* Trace groups a signal rides to reach each part, in order */
+const SIGNAL_ROUTES: Record<BoardPart, TraceGroup[]> = {
+  cpu: ["power"],
+  heatsink: ["clock"],
+  chipset: ["clock"],
+  ram: ["ddr"],
+  pcie: ["serpentine"],
+  "pci-slots": ["clock", "pcie"],
+};
+
+/* Closest point to `to` on a polyline, with the index of the vertex that starts its segment */
+function closestOnPath(path: THREE.Vector3[], to: THREE.Vector3) {
+  const segment = new THREE.Line3();
+  const point = new THREE.Vector3();
+  let best = { index: 0, point: path[0].clone(), distance: path[0].distanceTo(to) };
+  for (let i = 0; i < path.length - 1; i++) {
+    segment.set(path[i], path[i + 1]).closestPointToPoint(to, true, point);
+    if (point.distanceTo(to) < best.distance) best = { index: i, point: point.clone(), distance: point.distanceTo(to) };
+  }
+  return best;
+}
+
+/*
+  Follows each group's trace from its end nearest the signal, leaving it
+  where it passes closest to the target, then steps across to the target.
+*/
+function signalRoute(from: [number, number, number], to: [number, number, number], groups: TraceGroup[]) {
+  const onBoard = ([x, , z]: [number, number, number]) => new THREE.Vector3(x, SIGNAL_HEIGHT, z);
+  const target = onBoard(to);
+  const points = [onBoard(from)];
+
+  for (const group of groups) {
+    const here = points[points.length - 1];
+    const trace = TRACE_PATHS[group].map(onBoard);
+    if (trace[trace.length - 1].distanceTo(here) < trace[0].distanceTo(here)) trace.reverse();
+    const exit = closestOnPath(trace, target);
+    points.push(...trace.slice(0, exit.index + 1), exit.point);
+  }
+  points.push(target);
+
+  // Joins where a trace starts or ends on the previous point would be zero-length segments
+  const path = new THREE.CurvePath<THREE.Vector3>();
+  points.reduce((previous, point) => {
+    if (previous.distanceTo(point) < 0.01) return previous;
+    path.add(new THREE.LineCurve3(previous, point));
+    return point;
+  });
+  return path;
+}
+
+/* Reused for every instance matrix, so a lit route allocates nothing per frame */
+const signalDummy = new THREE.Object3D();
+
+/*
+  Glowing packets running from the CPU to the active domain along the board's
+  own copper traces. With the demand frameloop this only asks for frames while
+  packets move or the path fades, so an idle board still renders nothing.
+  Visitors who prefer reduced motion get the lit path without the packets.
+*/
+function SignalPulses({ domain, locate }: {
+  domain: DomainId | null,
+  locate: (domain: DomainId) => [number, number, number],
+}) {
+  const { invalidate } = useThree();
+  const pulsesRef = useRef<THREE.InstancedMesh>(null);
+  const segmentsRef = useRef<THREE.InstancedMesh>(null);
+  const pulseMaterial = useRef<THREE.MeshBasicMaterial>(null);
+  const segmentMaterial = useRef<THREE.MeshBasicMaterial>(null);
+  const route = useRef<{ domain: DomainId, path: THREE.CurvePath<THREE.Vector3> } | null>(null);
+  const glow = useRef(0);
+  const [reducedMotion] = useState(() => window.matchMedia("(prefers-reduced-motion: reduce)").matches);
+
+  // Kick the loop when the target changes; useFrame keeps it going from there
+  useEffect(() => {
+    invalidate();
+  }, [domain, invalidate]);
+
+  useFrame(({ clock }, delta) => {
+    const pulses = pulsesRef.current;
+    const segments = segmentsRef.current;
+    if (!pulses || !segments || !pulseMaterial.current || !segmentMaterial.current) return;
+
+    // Route to the new domain; keep the old route while the glow fades out
+    if (domain && route.current?.domain !== domain) {
+      const to = locate(domain);
+      const cpu = DOMAIN_REGISTRY.find((d) => d.board.part === "cpu");
+      const from = cpu?.id === domain ? ATX_POWER_POSITION : cpu ? locate(cpu.id) : CPU_POSITION;
+      route.current = { domain, path: signalRoute(from, to, SIGNAL_ROUTES[getDomain(domain).board.part]) };
+      glow.current = 0;
+    }
+
+    // The first frame after an idle spell has a long delta; cap it so the fade still shows
+    const fade = SIGNAL_FADE * Math.min(delta, 0.05);
+    glow.current = domain
+      ? Math.min(1, glow.current + fade)
+      : Math.max(0, glow.current - fade);
+    pulses.visible = segments.visible = glow.current > 0 && route.current !== null;
+    if (!pulses.visible || !route.current) return;
+
+    const { path } = route.current;
+    const dummy = signalDummy;
+
+    // Lit trace under the packets
+    segments.count = Math.min(path.curves.length, MAX_ROUTE_SEGMENTS);
+    path.curves.slice(0, MAX_ROUTE_SEGMENTS).forEach((curve, i) => {
+      const start = curve.getPoint(0);
+      const end = curve.getPoint(1);
+      dummy.position.copy(start).lerp(end, 0.5);
+      dummy.lookAt(end);
+      dummy.scale.set(0.04, 0.01, start.distanceTo(end));
+      dummy.updateMatrix();
+      segments.setMatrixAt(i, dummy.matrix);
+    });
+    segments.instanceMatrix.needsUpdate = true;
+    segments.computeBoundingSphere();
+    segmentMaterial.current.opacity = 0.5 * glow.current;
+
+    // Packets spaced evenly along the path, moving at a fixed speed whatever its length
+    const offset = reducedMotion ? 0 : (clock.getElapsedTime() * PULSE_SPEED) / path.getLength();
+    dummy.rotation.set(0, 0, 0);
+    for (let i = 0; i < PULSE_COUNT; i++) {
+      dummy.position.copy(path.getPointAt((offset + i / PULSE_COUNT) % 1));
+      dummy.scale.setScalar(reducedMotion ? 0 : 0.1);
+      dummy.updateMatrix();
+      pulses.setMatrixAt(i, dummy.matrix);
+    }
+    pulses.instanceMatrix.needsUpdate = true;
+    pulses.computeBoundingSphere();
+    pulseMaterial.current.opacity = glow.current;
+
+    // Without moving packets a fully lit route is a still image, so the loop can rest
+    if (domain ? !reducedMotion || glow.current < 1 : glow.current > 0) invalidate();
+  });
+
+  return (
+    <group>
+      <instancedMesh ref={segmentsRef} args={[undefined, undefined, MAX_ROUTE_SEGMENTS]} visible={false}>
+        <boxGeometry />
+        <meshBasicMaterial ref={segmentMaterial} color="#7df9ff" transparent depthWrite={false} toneMapped={false} />
+      </instancedMesh>
+      <instancedMesh ref={pulsesRef} args={[undefined, undefined, PULSE_COUNT]} visible={false}>
+        <sphereGeometry args={[0.5, 12, 8]} />
+        <meshBasicMaterial ref={pulseMaterial} color={GLOW} transparent depthWrite={false} toneMapped={false} />
+      </instancedMesh>
+    </group>
+  );
+}
+
+/* Domain parts, drawn around the position given in the domain registry */
+const BOARD_PARTS: Record<BoardPart, () => React.ReactNode> = {
+  "pci-slots": () => [-1.8, -0.6, 0.6, 1.8].map((z) => (
+    <PCISlot key={z} pos={[0, 0.08, z]} length={4.0} />
+  )),
+  heatsink: () => <Heatsink pos={[0, 0, 0]} w={2.2} h={0.5} d={1.4} fins={9} />,
+  cpu: () => <CPU pos={[0, 0, 0]} size={[2.2, 0.5, 2.2]} />,
+  ram: () => [0, 1, 2, 3].map((i) => (
+    <RAMSlot key={i} pos={[0, 0.06, i * 0.4 - 0.6]} length={3.5} />
+  )),
+  pcie: () => (
+    <>
+      <PCIESlot pos={[0, 0, 0]} length={7.0} />
+      <PCIESlot pos={[0, 0, 0.8]} length={5.0} />
+      {/* Additional shorter PCI-E slot */}
+      <PCIESlot pos={[2.5, 0, -0.5]} length={3.5} />
+    </>
+  ),
+  chipset: () => <ICChip pos={[0, 0, 0]} size={[1.2, 0.15, 1.2]} pins={144} />,
+};
+
+/* The central chipset is decoration unless a domain claims it */
+const chipsetIsDomain = DOMAIN_REGISTRY.some((domain) => domain.board.part === "chipset");
+
+/* ---------- Circuit traces ---------- */
+
+interface Trace {
+  start: [number, number, number];
+  end: [number, number, number];
+  width: number;
+  color: string;
+}
+
+/* Groups a signal can be routed along; everything else on the board is decoration */
+type TraceGroup = "power" | "ddr" | "pcie" | "clock" | "serpentine";
+
+const TRACE_GROUPS: Record<TraceGroup, Trace[]> = {
+  // Power traces (thick, golden copper) - 24-pin to CPU with multiple paths
+  power: Array.from({ length: 8 }, (_, i): Trace => ({
+    start: [4.9 - i * 0.1, 0.03, -4.2 + i * 0.05],
+    end: [3.6 - i * 0.05, 0.03, 0.2 + i * 0.1],
+    width: 0.06 + i * 0.005,
+    color: "#B8860B",
+  })),
+
+  // Dense memory controller traces (DDR interface)
+  ddr: Array.from({ length: 32 }, (_, i): Trace => {
+    const offset = (i % 2) * 0.05;
+    return {
+      start: [3.2 + offset, 0.02, 2.0 + i * 0.025],
+      end: [-1.8 + offset, 0.02, 3.0 + i * 0.025],
+      width: 0.012,
+      color: "#FFD700",
+    };
+  }),
+
+  // PCI-E lanes (differential pairs), 16 per slot
+  pcie: Array.from({ length: 4 * 16 }, (_, i): Trace => {
+    const slot = Math.floor(i / 16);
+    return {
+      start: [-0.8, 0.025, 0.8 - slot * 0.1],
+      end: [-4.5, 0.025, -1.0 + slot * 1.4],
+      width: 0.012,
+      color: i % 2 === 0 ? "#32CD32" : "#228B22",
+    };
+  }),
+
+  // High-frequency clock traces (shorter, wider)
+  clock: Array.from({ length: 6 }, (_, i): Trace => ({
+    start: [-0.2 + i * 0.1, 0.025, 0.5],
+    end: [3.6 + i * 0.05, 0.025, 1.0],
+    width: 0.025,
+    color: "#FF6347",
+  })),
+
+  // Serpentine delay lines (length matching): 8 lines of 6 runs joined by 5 rungs
+  serpentine: Array.from({ length: 8 }, (_, i) => {
+    const baseX = 0.5 + i * 0.3;
+    const baseZ = 2.0;
+    return Array.from({ length: 6 }, (_, seg): Trace[] => {
+      const direction = seg % 2 === 0 ? 1 : -1;
+      const run: Trace = {
+        start: [baseX + seg * 0.05, 0.02, baseZ + direction * 0.1],
+        end: [baseX + (seg + 1) * 0.05, 0.02, baseZ + direction * 0.1],
+        width: 0.01,
+        color: "#00CED1",
+      };
+      if (seg === 5) return [run];
+      return [run, {
+        start: [baseX + (seg + 1) * 0.05, 0.02, baseZ + direction * 0.1],
+        end: [baseX + (seg + 1) * 0.05, 0.02, baseZ - direction * 0.1],
+        width: 0.01,
+        color: "#00CED1",
+      }];
+    }).flat();
+  }).flat(),
+};
+
+/* Joins consecutive traces of one lane into the polyline they draw */
+const lanePath = (lane: Trace[]) => [lane[0].start, ...lane.map((trace) => trace.end)];
+
+/* One lane per group, which signal pulses follow so they run over copper that is actually drawn */
+const TRACE_PATHS: Record<TraceGroup, [number, number, number][]> = {
+  power: lanePath([TRACE_GROUPS.power[4]]),
+  ddr: lanePath([TRACE_GROUPS.ddr[16]]),
+  // Slot 0 ends at the PCI slots' anchor
+  pcie: lanePath([TRACE_GROUPS.pcie[0]]),
+  clock: lanePath([TRACE_GROUPS.clock[0]]),
+  // The line nearest the CPU
+  serpentine: lanePath(TRACE_GROUPS.serpentine.slice(7 * 11, 8 * 11)),
+};
+
 /* Enhanced PCB Circuit Traces - much more detailed like reference image */
-function PCBCircuitTraces() {
+function PCBCircuitTraces({ seed }: { seed: string }) {
   const circuitTraces = useMemo(() => {
-    const traces = [];
-    
-    // Power traces (thick, golden copper) - 24-pin to CPU with multiple paths
-    for (let i = 0; i < 8; i++) {
-      traces.push({
-        start: [4.9 - i * 0.1, 0.03, -4.2 + i * 0.05],
-        end: [3.6 - i * 0.05, 0.03, 0.2 + i * 0.1],
-        width: 0.06 + i * 0.005,
-        color: "#B8860B"
-      });
-    }
+    const random = createRandom(`${seed}:traces`);
+    const traces: Trace[] = [...TRACE_GROUPS.power];
     
     // Dense parallel traces like in reference - data buses
     for (let i = 0; i < 16; i++) {
@@ -421,28 +927,8 @@ function PCBCircuitTraces() {
       });
     }
     
-    // PCI-E lanes (differential pairs)
-    for (let slot = 0; slot < 4; slot++) {
-      for (let lane = 0; lane < 16; lane++) {
-        traces.push({
-          start: [-0.8, 0.025, 0.8 - slot * 0.1],
-          end: [-4.5, 0.025, -1.0 + slot * 1.4],
-          width: 0.012,
-          color: lane % 2 === 0 ? "#32CD32" : "#228B22"
-        });
-      }
-    }
-    
-    // High-frequency clock traces (shorter, wider)
-    for (let i = 0; i < 6; i++) {
-      traces.push({
-        start: [-0.2 + i * 0.1, 0.025, 0.5],
-        end: [3.6 + i * 0.05, 0.025, 1.0],
-        width: 0.025,
-        color: "#FF6347"
-      });
-    }
-    
+    traces.push(...TRACE_GROUPS.pcie, ...TRACE_GROUPS.clock);
+
     // Ground grid pattern - more comprehensive
     for (let i = -6; i <= 6; i += 0.5) {
       traces.push({
@@ -462,7 +948,7 @@ function PCBCircuitTraces() {
     // Via stitching pattern
     for (let x = -5; x <= 5; x += 0.4) {
       for (let z = -5; z <= 5; z += 0.4) {
-        if (Math.random() > 0.3) { // Random via placement
+        if (random() > 0.3) { // Random via placement
           traces.push({
             start: [x, 0.015, z],
             end: [x, 0.015, z],
@@ -491,16 +977,7 @@ function PCBCircuitTraces() {
     
     // Additional detailed traces like in reference image
     
-    // Dense memory controller traces (DDR interface)
-    for (let i = 0; i < 32; i++) {
-      const offset = (i % 2) * 0.05;
-      traces.push({
-        start: [3.2 + offset, 0.02, 2.0 + i * 0.025],
-        end: [-1.8 + offset, 0.02, 3.0 + i * 0.025],
-        width: 0.012,
-        color: "#FFD700"
-      });
-    }
+    traces.push(...TRACE_GROUPS.ddr);
     
     // High-speed differential pairs around CPU
     for (let i = 0; i < 20; i++) {
@@ -543,7 +1020,7 @@ function PCBCircuitTraces() {
     }
     
     // Clock distribution tree
-    const clockCenter = [-0.2, 0.02, 0.8];
+    const clockCenter: [number, number, number] = [-0.2, 0.02, 0.8];
     for (let level = 1; level <= 3; level++) {
       const numTraces = Math.pow(2, level);
       for (let i = 0; i < numTraces; i++) {
@@ -558,99 +1035,117 @@ function PCBCircuitTraces() {
       }
     }
     
-    // Serpentine delay lines (length matching)
-    for (let i = 0; i < 8; i++) {
-      const baseX = 0.5 + i * 0.3;
-      const baseZ = 2.0;
-      for (let seg = 0; seg < 6; seg++) {
-        const direction = seg % 2 === 0 ? 1 : -1;
-        traces.push({
-          start: [baseX + seg * 0.05, 0.02, baseZ + direction * 0.1],
-          end: [baseX + (seg + 1) * 0.05, 0.02, baseZ + direction * 0.1],
-          width: 0.01,
-          color: "#00CED1"
+    traces.push(...TRACE_GROUPS.serpentine);
+
+    // Split into flat trace segments and vias, one instanced mesh each
+    const segments: PartInstance[] = [];
+    const vias: PartInstance[] = [];
+    for (const trace of traces) {
+      const length = Math.sqrt(
+        Math.pow(trace.end[0] - trace.start[0], 2) + 
+        Math.pow(trace.end[2] - trace.start[2], 2)
+      );
+
+      if (length < 0.01) {
+        vias.push({
+          position: [trace.start[0], trace.start[1], trace.start[2]],
+          size: [trace.width, 0.01, trace.width],
+          color: trace.color,
         });
-        if (seg < 5) {
-          traces.push({
-            start: [baseX + (seg + 1) * 0.05, 0.02, baseZ + direction * 0.1],
-            end: [baseX + (seg + 1) * 0.05, 0.02, baseZ - direction * 0.1],
-            width: 0.01,
-            color: "#00CED1"
-          });
-        }
+        continue;
       }
+
+      segments.push({
+        position: [(trace.start[0] + trace.end[0]) / 2, trace.start[1], (trace.start[2] + trace.end[2]) / 2],
+        size: [length, 0.002, trace.width],
+        // A positive Y rotation turns +X towards -Z, so the angle is negated to point the box from start to end
+        rotationY: -Math.atan2(trace.end[2] - trace.start[2], trace.end[0] - trace.start[0]),
+        color: trace.color,
+      });
     }
 
-    return traces;
-  }, []);
+    return { segments, vias };
+  }, [seed]);
+  const { settings } = useContext(BoardQualityContext);
 
   return (
     <group>
-      {circuitTraces.map((trace, i) => {
-        const length = Math.sqrt(
-          Math.pow(trace.end[0] - trace.start[0], 2) + 
-          Math.pow(trace.end[2] - trace.start[2], 2)
-        );
-        
-        if (length < 0.01) {
-          // This is a via
-          return (
-            <mesh key={i} position={[trace.start[0], trace.start[1], trace.start[2]]}>
-              <cylinderGeometry args={[trace.width/2, trace.width/2, 0.01, 12]} />
-              <meshStandardMaterial 
-                color={trace.color} 
-                metalness={0.9} 
-                roughness={0.1}
-              />
-            </mesh>
-          );
-        }
-        
-        const midX = (trace.start[0] + trace.end[0]) / 2;
-        const midZ = (trace.start[2] + trace.end[2]) / 2;
-        const angle = Math.atan2(trace.end[2] - trace.start[2], trace.end[0] - trace.start[0]);
-        
-        return (
-          <mesh key={i} position={[midX, trace.start[1], midZ]} rotation={[0, angle, 0]}>
-            <boxGeometry args={[length, 0.002, trace.width]} />
-            <meshStandardMaterial 
-              color={trace.color} 
-              metalness={0.9} 
-              roughness={0.1}
-              emissive={trace.color}
-              emissiveIntensity={0.01}
-            />
-          </mesh>
-        );
-      })}
+      <InstancedParts parts={circuitTraces.segments}>
+        <meshStandardMaterial metalness={0.9} roughness={0.1} />
+      </InstancedParts>
+      {settings.vias && (
+        <InstancedParts parts={circuitTraces.vias} shape="cylinder">
+          <meshStandardMaterial metalness={0.9} roughness={0.1} />
+        </InstancedParts>
+      )}
     </group>
   );
 }
 
 /* ---------- Full Layout (arranged to match image) ---------- */
 
-function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain: string, position: [number, number, number]) => void }) {
-  const [isMobile, setIsMobile] = useState(false);
-
-  useEffect(() => {
-    const checkMobile = () => {
-      setIsMobile(window.innerWidth < 768);
-    };
-    
-    checkMobile();
-    window.addEventListener('resize', checkMobile);
-    return () => window.removeEventListener('resize', checkMobile);
-  }, []);
-
-  // Responsive font sizes
-  const getFontSize = (baseSize: number) => isMobile ? baseSize * 1.2 : baseSize;
-  const capPositions = [
+/* Capacitors near the cpu/heatsink, around the CPU, by the RAM and along the bottom slots */
+const BOARD_CAPACITORS: { pos: [number, number, number], h?: number, r?: number }[] = [
+  ...([
     [2.6, 0.22, -0.9],
     [3.1, 0.22, -0.4],
     [3.8, 0.22, 0.6],
     [3.3, 0.22, 1.4],
     [1.0, 0.22, -2.6],
-  ] as [number, number, number][];
+  ] as [number, number, number][]).map((pos) => ({ pos })),
+  // Constrained to the PCB
+  ...Array.from({ length: 12 }, (_, i) => {
+    const angle = (i * Math.PI * 2) / 12;
+    const radius = 1.5;
+    const x = Math.max(-6.5, Math.min(6.5, 3.6 + Math.cos(angle) * radius));
+    const z = Math.max(-5.5, Math.min(5.5, 1.0 + Math.sin(angle) * radius));
+    return { pos: [x, 0.22, z] as [number, number, number], h: 0.3, r: 0.1 };
+  }),
+  ...Array.from({ length: 8 }, (_, i) => ({ pos: [-1.5 + i * 0.3, 0.22, 2.2] as [number, number, number], h: 0.25, r: 0.08 })),
+  ...Array.from({ length: 10 }, (_, i) => ({ pos: [-3.0 + i * 0.6, 0.22, 4.8] as [number, number, number], h: 0.2, r: 0.06 })),
+];
+
+/* Small resistors scattered to add detail, kept within -6.5..6.5 x -5.5..5.5 */
+const BOARD_RESISTORS = Array.from({ length: 24 }, (_, i): PartInstance => ({
+  position: [-4.5 + (i % 6) * 1.5, 0.12, -3.5 + Math.floor(i / 6) * 1.8],
+  size: [0.25, 0.08, 0.12],
+}));
+
+const SMD_TYPES: { size: [number, number, number], color: string }[] = [
+  { size: [0.1, 0.03, 0.05], color: "#333" }, // resistor
+  { size: [0.08, 0.04, 0.08], color: "#8B4513" }, // cap
+  { size: [0.15, 0.02, 0.1], color: "#2F4F4F" }, // inductor
+  { size: [0.12, 0.03, 0.06], color: "#556B2F" }, // diode
+];
+
+/* Dense SMD area like in the reference image, plus a ring around the CPU */
+const scatterSmds = (random: Random): PartInstance[] => [
+  // Jittered grid of mixed parts
+  ...Array.from({ length: 50 }, (_, i): PartInstance => ({
+    position: [
+      -3.5 + (i % 10) * 0.3 + (random() - 0.5) * 0.08,
+      0.04,
+      -2.5 + Math.floor(i / 10) * 0.3 + (random() - 0.5) * 0.08,
+    ],
+    ...SMD_TYPES[Math.floor(random() * SMD_TYPES.length)],
+  })),
+  ...Array.from({ length: 30 }, (_, i): PartInstance => {
+    const angle = (i * Math.PI * 2) / 30;
+    const radius = 1.8 + (i % 3) * 0.2;
+    const x = Math.max(-6.5, Math.min(6.5, 3.6 + Math.cos(angle) * radius));
+    const z = Math.max(-5.5, Math.min(5.5, 1.0 + Math.sin(angle) * radius));
+    return { position: [x, 0.04, z], size: [0.08, 0.02, 0.04], color: "#2F4F4F" };
+  }),
+];
+
+function MotherboardLayoutAccurate({ seed, onDomainClick }: { seed: string, onDomainClick: (domain: DomainId, position: [number, number, number]) => void }) {
+  const { settings, compact } = useContext(BoardQualityContext);
+
+  // Responsive font sizes
+  const getFontSize = (baseSize: number) => compact ? baseSize * 1.2 : baseSize;
+
+  // Each generator gets its own stream so adding one doesn't reshuffle the others
+  const smds = useMemo(() => scatterSmds(createRandom(`${seed}:smd`)), [seed]);
 
   // copper trace positions (we'll feed x,z and length via extra tuple element)
   const traces = [
@@ -665,20 +1160,13 @@ function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain:
       {/* PCB */}
       <PCB width={14} depth={12} />
 
-      {/* Left PCI slots stack (design domain) - repositioned within bounds */}
-      <ClickableComponent 
-        domain="design" 
-        position={[-4.5, 0, -1.0]} 
-        onDomainClick={onDomainClick}
-      >
-        <group>
-          <PCISlot pos={[0, 0.08, -1.8]} length={4.0} />
-          <PCISlot pos={[0, 0.08, -0.6]} length={4.0} />
-          <PCISlot pos={[0, 0.08, 0.6]} length={4.0} />
-          <PCISlot pos={[0, 0.08, 1.8]} length={4.0} />
-          <Text position={[0, 0.3, 0]} fontSize={getFontSize(0.4)} color={"#ffffff"} rotation={[-Math.PI / 2, 0, 0]}>design</Text>
-        </group>
-      </ClickableComponent>
+      {/* Recruitment domains (CPU, heatsink, PCI/PCIe and RAM slots) from the domain registry */}
+      {DOMAIN_REGISTRY.map(({ id, board }) => (
+        <ClickableComponent key={id} domain={id} position={board.position} onDomainClick={onDomainClick}>
+          {BOARD_PARTS[board.part]()}
+          <DomainLabel domain={id} position={board.labelOffset} fontSize={getFontSize(board.labelSize ?? 0.35)} />
+        </ClickableComponent>
+      ))}
 
       {/* PCI edge long connector (thin brown vertical connector near center-left) */}
       <mesh position={[-2.0, 0.12, 1.2]} castShadow>
@@ -686,32 +1174,14 @@ function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain:
         <meshStandardMaterial color={"#8b6e48"} metalness={0.3} roughness={0.35} />
       </mesh>
 
-      {/* Heatsink (tech domain) */}
-      <ClickableComponent 
-        domain="tech" 
-        position={[1.6, 0.28, -0.6]} 
-        onDomainClick={onDomainClick}
-      >
-        <Heatsink pos={[0, 0, 0]} w={2.2} h={0.5} d={1.4} fins={9} />
-      </ClickableComponent>
-
       {/* Chipset grid near center - make it more like an actual chipset */}
-      <ICChip pos={[-0.2, 0.14, 0.8]} size={[1.2, 0.15, 1.2]} pins={144} />
+      {!chipsetIsDomain && <ICChip pos={[-0.2, 0.14, 0.8]} size={[1.2, 0.15, 1.2]} pins={144} />}
       
       {/* Additional support chips around the board */}
       <ICChip pos={[1.5, 0.08, -2.0]} size={[0.6, 0.08, 0.6]} pins={32} />
       <ICChip pos={[-2.5, 0.08, 2.0]} size={[0.8, 0.08, 0.8]} pins={48} />
       <ICChip pos={[5.0, 0.08, -1.0]} size={[0.4, 0.06, 0.4]} pins={16} />
 
-      {/* CPU (management domain) */}
-      <ClickableComponent 
-        domain="management" 
-        position={[3.6, 0.35, 1.0]} 
-        onDomainClick={onDomainClick}
-      >
-        <CPU pos={[0, 0, 0]} size={[2.2, 0.5, 2.2]} />
-      </ClickableComponent>
-      
       {/* CPU socket mounting holes */}
       {Array.from({ length: 4 }).map((_, i) => {
         const angle = (i * Math.PI) / 2;
@@ -726,27 +1196,6 @@ function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain:
         );
       })}
 
-      {/* RAM slots: 4 beige/tan DIMM slots like in reference image - repositioned higher */}
-      <ClickableComponent domain="competitive coding" position={[-1.5, 0.06, 0.5]} onDomainClick={onDomainClick}>
-        <group position={[-1.5, 0.06, 0.5]}>
-          {[0, 1, 2, 3].map((i) => (
-            <RAMSlot key={i} pos={[0, 0.06, i * 0.4 - 0.6]} length={3.5} />
-          ))}
-          <Text position={[0, 0.6, -1.0]} fontSize={getFontSize(0.35)} color={"#ffffff"} rotation={[-Math.PI / 2, 0, 0]}>competitive coding</Text>
-        </group>
-      </ClickableComponent>
-
-      {/* PCIe slots (research domain) - repositioned higher on the board */}
-      <ClickableComponent domain="research" position={[0, 0.06, 2.0]} onDomainClick={onDomainClick}>
-        <group>
-          <PCIESlot pos={[0, 0.06, 2.0]} length={7.0} />
-          <PCIESlot pos={[0, 0.06, 2.8]} length={5.0} />
-          {/* Additional shorter PCI-E slot */}
-          <PCIESlot pos={[2.5, 0.06, 1.5]} length={3.5} />
-          <Text position={[1.5, 0.3, 2.0]} fontSize={getFontSize(0.4)} color={"#ffffff"} rotation={[-Math.PI / 2, 0, 0]}>research</Text>
-        </group>
-      </ClickableComponent>
-
       {/* I/O block top-middle - repositioned to stay within PCB bounds */}
       <group position={[1.8, 0.18, -5.0]}>
         {/* USB connectors */}
@@ -787,90 +1236,17 @@ function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain:
       {/* Battery bottom-left - repositioned within bounds */}
       <Battery pos={[-3.5, 0.12, 4.5]} />
 
-      {/* Capacitors group near cpu/heatsink - more realistic placement */}
-      {capPositions.map((p, i) => (
-        <CapBlue key={i} pos={p} />
-      ))}
-      
-      {/* Additional capacitors around CPU area like in reference - constrained to PCB */}
-      {Array.from({ length: 12 }).map((_, i) => {
-        const angle = (i * Math.PI * 2) / 12;
-        const radius = 1.5; // Reduced radius to stay within bounds
-        const x = Math.max(-6.5, Math.min(6.5, 3.6 + Math.cos(angle) * radius));
-        const z = Math.max(-5.5, Math.min(5.5, 1.0 + Math.sin(angle) * radius));
-        return <CapBlue key={`cpu-cap-${i}`} pos={[x, 0.22, z]} h={0.3} r={0.1} />;
-      })}
-
-      {/* More capacitors near RAM area - repositioned */}
-      {Array.from({ length: 8 }).map((_, i) => (
-        <CapBlue key={`ram-cap-${i}`} pos={[-1.5 + i * 0.3, 0.22, 2.2]} h={0.25} r={0.08} />
-      ))}
-
-      {/* small resistors scattered to add detail - repositioned to stay within bounds */}
-      {Array.from({ length: 24 }).map((_, i) => {
-        const x = -4.5 + (i % 6) * 1.5; // Adjusted to stay within -6.5 to 6.5
-        const z = -3.5 + Math.floor(i / 6) * 1.8; // Adjusted to stay within -5.5 to 5.5
-        return <SmallRes key={i} pos={[x, 0.12, z]} size={[0.25, 0.08, 0.12]} />;
-      })}
-      
-      {/* Dense SMD component areas like in reference image - repositioned */}
-      {Array.from({ length: 50 }).map((_, i) => {
-        const x = -3.5 + (i % 10) * 0.3; // Adjusted to stay within bounds
-        const z = -2.5 + Math.floor(i / 10) * 0.3; // Adjusted to stay within bounds
-        const componentType = i % 4;
-        const colors = ["#333", "#8B4513", "#2F4F4F", "#556B2F"];
-        const sizes = [
-          [0.1, 0.03, 0.05], // resistor
-          [0.08, 0.04, 0.08], // cap
-          [0.15, 0.02, 0.1], // inductor
-          [0.12, 0.03, 0.06] // diode
-        ];
-        return <SMDComponent key={`smd-${i}`} pos={[x, 0.04, z]} size={sizes[componentType] as [number, number, number]} color={colors[componentType]} />;
-      })}
-      
-      {/* More SMD components around CPU area - constrained */}
-      {Array.from({ length: 30 }).map((_, i) => {
-        const angle = (i * Math.PI * 2) / 30;
-        const radius = 1.8 + (i % 3) * 0.2; // Reduced radius
-        const x = Math.max(-6.5, Math.min(6.5, 3.6 + Math.cos(angle) * radius));
-        const z = Math.max(-5.5, Math.min(5.5, 1.0 + Math.sin(angle) * radius));
-        return <SMDComponent key={`cpu-smd-${i}`} pos={[x, 0.04, z]} size={[0.08, 0.02, 0.04]} color="#2F4F4F" />;
-      })}
-
-      {/* many small blue capacitors near bottom slots - repositioned */}
-      {Array.from({ length: 10 }).map((_, i) => (
-        <CapBlue key={`bottomcap-${i}`} pos={[-3.0 + i * 0.6, 0.22, 4.8]} h={0.2} r={0.06} />
-      ))}
+      {/* Capacitors, resistors and SMD parts - instanced, a few draw calls in total */}
+      <CapsBlue caps={BOARD_CAPACITORS} />
+      <SmallResistors parts={BOARD_RESISTORS} />
+      {settings.smdScatter && <SMDComponents parts={smds} />}
 
       {/* glow-ish copper traces approximated */}
       <CopperTraces positions={traces} />
 
       {/* Enhanced PCB Circuit Traces */}
-      <PCBCircuitTraces />
-
-      {/* Interactive Domain Labels */}
-      <Text 
-        position={[3.6, 0.9, 1.0]} 
-        fontSize={0.35} 
-        color={"#ffffff"} 
-        anchorX="center" 
-        anchorY="middle" 
-        rotation={[-Math.PI/2, 0, 0]}
-      >
-        management
-      </Text>
-      
-      <Text 
-        position={[1.6, 0.9, -0.6]} 
-        fontSize={0.3} 
-        color={"#ffffff"} 
-        anchorX="center" 
-        anchorY="middle" 
-        rotation={[-Math.PI/2, 0, 0]}
-      >
-        tech
-      </Text>
-      
+      <PCBCircuitTraces seed={seed} />
+
       <Text position={[4.9, 0.9, -4.2]} fontSize={0.15} color={"#ffffff"} anchorX="center" anchorY="middle" rotation={[-Math.PI/2, 0, 0]}>ATX_PWR</Text>
       <Text position={[-4.5, 0.9, -4.5]} fontSize={0.15} color={"#ffffff"} anchorX="center" anchorY="middle" rotation={[-Math.PI/2, 0, 0]}>CPU_PWR</Text>
       
@@ -891,115 +1267,340 @@ function MotherboardLayoutAccurate({ onDomainClick }: { onDomainClick: (domain:
   );
 }
 
+/* ---------- Model board (motherboard.glb) ---------- */
+
+/* Matches the primitive PCB's footprint so camera and zoom targets work for both boards */
+const MODEL_BOARD_WIDTH = 14;
+
+interface ModelDomainPart {
+  domain: DomainDefinition<DomainId>;
+  position: [number, number, number];
+  nodes: THREE.Object3D[];
+  labelHeight: number;
+}
+
+function ModelMotherboard({ onDomainClick }: { onDomainClick: (domain: DomainId, position: [number, number, number]) => void }) {
+  const { scene } = useGLTF(motherboardModelUrl);
+
+  const { board, parts } = useMemo(() => {
+    const board = scene.clone(true);
+
+    // Fit the model to the board footprint, centred and resting on y = 0
+    const bounds = new THREE.Box3().setFromObject(board);
+    const size = bounds.getSize(new THREE.Vector3());
+    const center = bounds.getCenter(new THREE.Vector3());
+    const scale = MODEL_BOARD_WIDTH / Math.max(size.x, size.z);
+    board.applyMatrix4(
+      new THREE.Matrix4()
+        .makeScale(scale, scale, scale)
+        .multiply(new THREE.Matrix4().makeTranslation(-center.x, -bounds.min.y, -center.z))
+    );
+    board.updateMatrixWorld(true);
+
+    // Lift each domain's nodes out of the model so they can sit inside a ClickableComponent
+    const parts: ModelDomainPart[] = [];
+    for (const domain of DOMAIN_REGISTRY) {
+      const nodes = (domain.board.modelNodes ?? [])
+        .map((name) => board.getObjectByName(name))
+        .filter((node): node is THREE.Object3D => node !== undefined);
+      if (nodes.length === 0) continue;
+
+      const partBounds = new THREE.Box3();
+      nodes.forEach((node) => partBounds.expandByObject(node));
+      const partCenter = partBounds.getCenter(new THREE.Vector3());
+      const toPart = new THREE.Matrix4().makeTranslation(-partCenter.x, -partCenter.y, -partCenter.z);
+      const transforms = nodes.map((node) => toPart.clone().multiply(node.matrixWorld));
+      nodes.forEach((node, i) => {
+        node.removeFromParent();
+        transforms[i].decompose(node.position, node.quaternion, node.scale);
+      });
+
+      parts.push({
+        domain,
+        position: partCenter.toArray() as [number, number, number],
+        nodes,
+        labelHeight: partBounds.max.y - partCenter.y + 0.3,
+      });
+    }
+
+    return { board, parts };
+  }, [scene]);
+
+  return (
+    <group>
+      <primitive object={board} />
+      {parts.map(({ domain, position, nodes, labelHeight }) => (
+        <ClickableComponent key={domain.id} domain={domain.id} position={position} onDomainClick={onDomainClick}>
+          {nodes.map((node) => (
+            <primitive key={node.uuid} object={node} />
+          ))}
+          <DomainLabel domain={domain.id} position={[0, labelHeight, 0]} fontSize={domain.board.labelSize ?? 0.35} />
+        </ClickableComponent>
+      ))}
+    </group>
+  );
+}
+
+/* Falls back to the primitive board when the model cannot be loaded */
+class ModelErrorBoundary extends Component<{ fallback: React.ReactNode, children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.warn("Motherboard model failed to load, using the primitive board:", error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
 /* ---------- Rotatable Motherboard Wrapper ---------- */
-function RotatableMotherboard() {
+/* Movement in CSS pixels before a press counts as a tilt rather than a tap */
+const TAP_THRESHOLD_PX = 8;
+
+/* Pinch zoom range, as PerspectiveCamera.zoom; 1 is the default framing */
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 2.5;
+
+/* Tilt, in radians, below which the spring-back counts as settled and stops asking for frames */
+const SPRING_EPSILON = 0.0005;
+
+type Tilt = { x: number, y: number };
+
+const tiltOffset = (...tilts: Tilt[]) => Math.max(...tilts.flatMap((t) => [Math.abs(t.x), Math.abs(t.y)]));
+
+/* Lets the DOM keyboard overlay open a domain as if it had been clicked */
+interface BoardHandle {
+  openDomain: (domain: DomainId) => void;
+}
+
+/* How much further back than a click's close-up a deep-linked domain is framed, so the whole part and its panel fit */
+const FRAMED_PULL_BACK = 1.8;
+
+function RotatableMotherboard({ seed, focusedDomain, focus, onClearFocus, ref }: {
+  seed: string,
+  focusedDomain: DomainId | null,
+  /* Deep-linked domain: framed with its panel open */
+  focus: DomainId | null,
+  onClearFocus: () => void,
+  ref?: React.Ref<BoardHandle>,
+}) {
   const groupRef = useRef<THREE.Group>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [rotation, setRotation] = useState({ x: 0, y: 0 });
-  const [targetRotation, setTargetRotation] = useState({ x: 0, y: 0 });
-  const [isZooming, setIsZooming] = useState(false);
-  const [zoomTarget, setZoomTarget] = useState<[number, number, number] | null>(null);
-  const [isMobile, setIsMobile] = useState(false);
+  // Tilt lives in refs: it changes every frame, and state would re-render the whole board each time
+  const isDragging = useRef(false);
+  const rotation = useRef<Tilt>({ x: 0, y: 0 });
+  const targetRotation = useRef<Tilt>({ x: 0, y: 0 });
+  // A domain we came back from; the camera starts on it and flies out
+  const [flyOutFrom] = useState(peekFlyOut);
+  // Read once per visit; the board remounts on the way back from a domain page
+  const [progress] = useState(loadBoardProgress);
+  const [hoveredDomain, setHoveredDomain] = useState<DomainId | null>(null);
+  // Set on click and kept until the page changes, so the path stays lit during the flight
+  const [selectedDomain, setSelectedDomain] = useState<DomainId | null>(null);
+  // Overview framing, read from the camera on the first frame
+  const homePose = useRef<CameraPose | null>(null);
+  const framedDomain = useRef<DomainId | null>(null);
+  const { settings, compact } = useContext(BoardQualityContext);
   
-  const { size, camera } = useThree();
+  const { size, camera, gl, invalidate } = useThree();
+  const cameraController = useCameraController();
+  // Every pointer currently down on the canvas (mouse, pen or finger), by pointerId
+  const pointers = useRef(new Map<number, { x: number, y: number }>());
+  const gesture = useRef<GestureState>({ moved: false });
+  const drag = useRef({ startX: 0, startY: 0, pinchDistance: 0, pinchZoom: 1 });
   const navigate = useNavigate();
+  const { candidate } = useCandidate();
   const maxRotation = THREE.MathUtils.degToRad(20); // 20 degrees max rotation
-
-  useEffect(() => {
-    const checkMobile = () => {
-      setIsMobile(window.innerWidth < 768);
-    };
-    
-    checkMobile();
-    window.addEventListener('resize', checkMobile);
-    return () => window.removeEventListener('resize', checkMobile);
-  }, []);
   
-  // Handle domain clicks with balanced zoom animation
-  const handleDomainClick = (domain: string, position: [number, number, number]) => {
-    console.log(`Clicked on ${domain} at position:`, position);
-    
-    // Start zoom animation
-    setIsZooming(true);
-    setZoomTarget(position);
+  // Close-up of a part; position is in board coordinates, so convert through the tilted board group
+  const closeUpPose = (position: [number, number, number], pullBack = 1): CameraPose => {
+    const target = new THREE.Vector3(...position);
+    groupRef.current?.localToWorld(target);
+    const distance = (compact ? 1.25 : 1) * pullBack; // Slightly further back on mobile
+    return {
+      position: [target.x, target.y - 2 * distance, target.z + 4 * distance],
+      target: target.toArray(),
+    };
+  };
+
+  const findPart = (domain: DomainId): [number, number, number] => {
+    // Wherever the current board (primitives or model) placed the part
+    const part = groupRef.current?.getObjectByName(domainObjectName(domain));
+    return part ? part.position.toArray() : getDomain(domain).board.position;
+  };
+
+  // Handle domain clicks: fly to the part, then open its page once the camera arrives
+  const handleDomainClick = (domain: DomainId, position: [number, number, number]) => {
+    const { route } = getDomain(domain);
+
+    // Unregistered visitors go straight to the registration form, then on to the domain
+    if (!candidate) {
+      navigate(`/register?next=${encodeURIComponent(route)}`);
+      return;
+    }
     
     // Mobile-responsive rotation
-    const rotationMultiplier = isMobile ? 0.6 : 1.0; // Less dramatic on mobile
-    setTargetRotation(prev => ({
-      x: prev.x + THREE.MathUtils.degToRad(8 * rotationMultiplier), 
-      y: prev.y + THREE.MathUtils.degToRad(3 * rotationMultiplier)  
-    }));
+    const rotationMultiplier = compact ? 0.6 : 1.0; // Less dramatic on mobile
+    targetRotation.current = {
+      x: targetRotation.current.x + THREE.MathUtils.degToRad(8 * rotationMultiplier), 
+      y: targetRotation.current.y + THREE.MathUtils.degToRad(3 * rotationMultiplier)  
+    };
     
-    // Faster navigation on mobile for better UX
-    const duration = isMobile ? 2000 : 2500;
-    setTimeout(() => {
-      // Navigate to domain page after zoom completes
-      let route = `/${domain.replace(' ', '-')}`;
-      navigate(route);
-    }, duration);
+    setSelectedDomain(domain);
+
+    // Clicking another domain mid-flight replaces this flight, so only the last click navigates
+    cameraController.flyTo(closeUpPose(position), {
+      duration: compact ? 1200 : 1500, // Faster on mobile for better UX
+      onComplete: () => {
+        rememberFlyOut(domain);
+        navigate(route);
+      },
+    });
   };
   
-  // Animation loop for rotation and zoom
+  const handleHoverDomain = (domain: DomainId, hovered: boolean) => {
+    setHoveredDomain((current) => (hovered ? domain : current === domain ? null : current));
+  };
+
+  // Panel for the deep-linked domain, drawn by its ClickableComponent so it follows the part on either board
+  const domainPanel = focus && {
+    domain: focus,
+    content: (
+      <BoardInfoCard
+        info={{
+          part: BOARD_PART_NAMES[getDomain(focus).board.part],
+          title: getDomain(focus).label,
+          body: getDomain(focus).description,
+        }}
+        onClose={onClearFocus}
+      >
+        <button type="button" onClick={() => handleDomainClick(focus, findPart(focus))}>
+          Open {getDomain(focus).label.toLowerCase()}
+        </button>
+        <button type="button" onClick={onClearFocus}>Whole board</button>
+      </BoardInfoCard>
+    ),
+  };
+
+  useImperativeHandle(ref, () => ({
+    openDomain: (domain) => handleDomainClick(domain, findPart(domain)),
+  }));
+  
+  // Frames only run on demand, so make sure a change of deep link gets one
+  useEffect(() => {
+    invalidate();
+  }, [focus, invalidate]);
+
+  // Animation loop for rotation, deep-link framing and the return fly-out
   useFrame(() => {
-    if (!isDragging && groupRef.current) {
+    if (!homePose.current) {
+      // First frame: open on a deep-linked domain, or start on the domain we came back from and pull back out
+      homePose.current = { position: camera.position.toArray(), target: [0, 0, 0] };
+      clearFlyOut();
+      if (focus) {
+        framedDomain.current = focus;
+        cameraController.jumpTo(closeUpPose(findPart(focus), FRAMED_PULL_BACK));
+      } else if (flyOutFrom) {
+        cameraController.jumpTo(closeUpPose(findPart(flyOutFrom)));
+        cameraController.flyTo(homePose.current, { duration: 1200, easing: easeOutCubic });
+      }
+    } else if (focus !== framedDomain.current) {
+      // The link changed under a mounted board (another domain, or back to the plain board)
+      framedDomain.current = focus;
+      cameraController.flyTo(focus ? closeUpPose(findPart(focus), FRAMED_PULL_BACK) : homePose.current, { duration: 1000 });
+    }
+
+    const tilt = rotation.current;
+    const target = targetRotation.current;
+    if (!isDragging.current && groupRef.current && tiltOffset(tilt, target) > 0) {
       // Spring animation back to initial position
       const springStrength = 0.1;
       const damping = 0.9;
       
-      setTargetRotation(prev => ({
-        x: prev.x * damping,
-        y: prev.y * damping
-      }));
-      
-      setRotation(prev => ({
-        x: prev.x + (targetRotation.x - prev.x) * springStrength,
-        y: prev.y + (targetRotation.y - prev.y) * springStrength
-      }));
+      target.x *= damping;
+      target.y *= damping;
+      tilt.x += (target.x - tilt.x) * springStrength;
+      tilt.y += (target.y - tilt.y) * springStrength;
+
+      // Settled: snap flat and let the demand frameloop rest
+      const settled = tiltOffset(tilt, target) < SPRING_EPSILON;
+      if (settled) {
+        rotation.current = { x: 0, y: 0 };
+        targetRotation.current = { x: 0, y: 0 };
+      }
       
       // Apply rotation (keeping the original 90-degree X rotation for face orientation)
       groupRef.current.rotation.set(
-        Math.PI / 2 + rotation.x,
-        rotation.y,
+        Math.PI / 2 + rotation.current.x,
+        rotation.current.y,
         0
       );
-    }
-    
-    // Handle balanced zoom animation - responsive for mobile
-    if (isZooming && zoomTarget && camera) {
-      const mobileOffset = isMobile ? 1 : 0; // Slightly further back on mobile
-      const targetPosition = new THREE.Vector3(
-        zoomTarget[0], 
-        zoomTarget[1] + 3 + mobileOffset, // Good viewing distance above component
-        zoomTarget[2] + 2 + mobileOffset  // Reasonable distance from component
-      );
-      
-      // Smooth camera movement towards target
-      camera.position.lerp(targetPosition, 0.06);
-      camera.lookAt(zoomTarget[0], zoomTarget[1], zoomTarget[2]);
-      camera.updateMatrixWorld();
+      if (!settled) invalidate();
     }
   });
   
-  // Add window event listeners for better mouse handling
+  // Pointer events cover mouse, pen and touch alike: one pointer tilts the board, two pinch-zoom
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDragging) return;
-      
-      const currentMouse = {
-        x: (e.clientX / size.width) * 2 - 1,
-        y: -(e.clientY / size.height) * 2 + 1
-      };
-      
-      const deltaX = currentMouse.x - dragStart.x;
-      const deltaY = currentMouse.y - dragStart.y;
-      
-      // Convert mouse movement to rotation, with limits
-      const newRotationY = THREE.MathUtils.clamp(deltaX * 2, -maxRotation, maxRotation);
-      const newRotationX = THREE.MathUtils.clamp(deltaY * 2, -maxRotation, maxRotation);
+    const canvas = gl.domElement;
+    const camera3D = camera as THREE.PerspectiveCamera;
+
+    const pinchDistance = () => {
+      const [a, b] = [...pointers.current.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    const startDrag = (clientX: number, clientY: number) => {
+      drag.current.startX = clientX;
+      drag.current.startY = clientY;
+      isDragging.current = true;
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (pointers.current.size === 0) gesture.current.moved = false;
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pointers.current.size === 1) {
+        startDrag(e.clientX, e.clientY);
+      } else if (pointers.current.size === 2) {
+        // A second finger turns the tilt into a pinch
+        gesture.current.moved = true;
+        isDragging.current = false;
+        targetRotation.current = { x: 0, y: 0 };
+        invalidate();
+        drag.current.pinchDistance = pinchDistance();
+        drag.current.pinchZoom = camera3D.zoom;
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const pointer = pointers.current.get(e.pointerId);
+      if (!pointer) return;
+      pointer.x = e.clientX;
+      pointer.y = e.clientY;
+
+      if (pointers.current.size >= 2) {
+        if (drag.current.pinchDistance === 0) return;
+        const scale = pinchDistance() / drag.current.pinchDistance;
+        camera3D.zoom = THREE.MathUtils.clamp(drag.current.pinchZoom * scale, MIN_ZOOM, MAX_ZOOM);
+        camera3D.updateProjectionMatrix();
+        invalidate();
+        return;
+      }
+
+      const dx = e.clientX - drag.current.startX;
+      const dy = e.clientY - drag.current.startY;
+      if (Math.hypot(dx, dy) > TAP_THRESHOLD_PX) gesture.current.moved = true;
+
+      // Convert pointer movement to rotation, with limits
+      const newRotationY = THREE.MathUtils.clamp((dx / size.width) * 4, -maxRotation, maxRotation);
+      const newRotationX = THREE.MathUtils.clamp((-dy / size.height) * 4, -maxRotation, maxRotation);
       
-      setTargetRotation({ x: newRotationX, y: newRotationY });
-      setRotation({ x: newRotationX, y: newRotationY });
+      targetRotation.current = { x: newRotationX, y: newRotationY };
+      rotation.current = { x: newRotationX, y: newRotationY };
       
       if (groupRef.current) {
         groupRef.current.rotation.set(
@@ -1008,66 +1609,194 @@ function RotatableMotherboard() {
           0
         );
       }
+      invalidate();
     };
     
-    const handleMouseUp = () => {
-      setIsDragging(false);
-      setTargetRotation({ x: 0, y: 0 });
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointers.current.delete(e.pointerId)) return;
+
+      if (pointers.current.size === 1) {
+        // Back from a pinch to one finger: tilt from where that finger is now
+        const [rest] = pointers.current.values();
+        startDrag(rest.x, rest.y);
+      } else if (pointers.current.size === 0) {
+        isDragging.current = false;
+        targetRotation.current = { x: 0, y: 0 };
+        // The spring runs in useFrame, which the demand frameloop only calls when asked
+        invalidate();
+      }
     };
     
-    if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-    }
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
     
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
     };
-  }, [isDragging, dragStart, size, maxRotation]);
-  
-  const handlePointerDown = (e: any) => {
-    e.stopPropagation();
-    setIsDragging(true);
-    
-    // Handle both mouse and touch events
-    const clientX = e.clientX || (e.touches && e.touches[0]?.clientX) || 0;
-    const clientY = e.clientY || (e.touches && e.touches[0]?.clientY) || 0;
-    
-    setDragStart({
-      x: (clientX / size.width) * 2 - 1,
-      y: -(clientY / size.height) * 2 + 1
-    });
-  };
+  }, [gl, camera, invalidate, size, maxRotation]);
   
   return (
     <group
       ref={groupRef}
       rotation={[Math.PI / 2, 0, 0]}
       position={[0, 0, 0]}
-      onPointerDown={handlePointerDown}
     >
-      <MotherboardLayoutAccurate onDomainClick={handleDomainClick} />
+      <BoardInteractionContext.Provider value={{ focusedDomain, gesture, progress, onHoverDomain: handleHoverDomain, domainPanel }}>
+        {settings.model ? (
+          <ModelErrorBoundary fallback={<MotherboardLayoutAccurate seed={seed} onDomainClick={handleDomainClick} />}>
+            <Suspense fallback={<Loader />}>
+              <ModelMotherboard onDomainClick={handleDomainClick} />
+            </Suspense>
+          </ModelErrorBoundary>
+        ) : (
+          <MotherboardLayoutAccurate seed={seed} onDomainClick={handleDomainClick} />
+        )}
+        <BoardInfoHotspots />
+        {(settings.bloom || settings.ambientOcclusion || settings.outline) && (
+          <BoardEffects
+            bloom={settings.bloom}
+            ambientOcclusion={settings.ambientOcclusion}
+            outline={settings.outline}
+            outlinedDomain={hoveredDomain ?? focusedDomain}
+            antialias={settings.antialias}
+          />
+        )}
+        <SignalPulses domain={selectedDomain ?? hoveredDomain ?? focusedDomain} locate={findPart} />
+      </BoardInteractionContext.Provider>
     </group>
   );
 }
 
-/* ---------- Wrapper scene ---------- */
-export default function Motherboard3D() {
-  const [isMobile, setIsMobile] = useState(false);
+/* Feeds renderer stats out of the Canvas for the ?stats overlay */
+function RenderBudgetProbe({ onSample }: { onSample: (stats: RenderStats) => void }) {
+  useRenderBudget(onSample);
+  return null;
+}
+
+/* ---------- Post-processing ---------- */
+
+/*
+  Optional effect passes, each switched by the quality tier: ambient occlusion
+  to seat parts on the PCB, an outline round the hovered or focused domain,
+  and bloom on anything brighter than white (see GLOW). Taking over the render
+  at priority 1 keeps the demand frameloop; frames still only happen when
+  something invalidates.
+*/
+function BoardEffects({ bloom, ambientOcclusion, outline, outlinedDomain, antialias }: {
+  bloom: boolean,
+  ambientOcclusion: boolean,
+  outline: boolean,
+  outlinedDomain: DomainId | null,
+  antialias: boolean,
+}) {
+  const { gl, scene, camera, size, invalidate } = useThree();
+
+  // Passes are sized by the effect below, so only a change of effect rebuilds the pipeline
+  const pipeline = useMemo(() => {
+    const target = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, samples: antialias ? 4 : 0 });
+    const composer = new EffectComposer(gl, target);
+    composer.addPass(new RenderPass(scene, camera));
+
+    if (ambientOcclusion) {
+      const aoPass = new GTAOPass(scene, camera);
+      aoPass.blendIntensity = 0.6;
+      aoPass.updateGtaoMaterial({ radius: 0.3, thickness: 0.5 });
+      composer.addPass(aoPass);
+    }
+
+    let outlinePass: OutlinePass | null = null;
+    if (outline) {
+      outlinePass = new OutlinePass(new THREE.Vector2(1, 1), scene, camera);
+      outlinePass.visibleEdgeColor.set("#FFD700");
+      outlinePass.hiddenEdgeColor.set("#7a6500");
+      outlinePass.edgeStrength = 4;
+      outlinePass.edgeThickness = 1.5;
+      composer.addPass(outlinePass);
+    }
+
+    if (bloom) composer.addPass(new UnrealBloomPass(new THREE.Vector2(1, 1), 0.8, 0.4, 1.0));
+
+    // Tone mapping and sRGB output, which the renderer skips when drawing into the composer
+    composer.addPass(new OutputPass());
+    return { composer, outlinePass };
+  }, [gl, scene, camera, bloom, ambientOcclusion, outline, antialias]);
 
   useEffect(() => {
-    const checkMobile = () => {
-      setIsMobile(window.innerWidth < 768);
+    const { composer } = pipeline;
+    // Count every pass in renderer.info (and so in ?stats), not just the last one
+    gl.info.autoReset = false;
+    return () => {
+      gl.info.autoReset = true;
+      composer.passes.forEach((pass) => pass.dispose());
+      composer.dispose();
     };
-    
-    checkMobile();
-    window.addEventListener('resize', checkMobile);
-    return () => window.removeEventListener('resize', checkMobile);
-  }, []);
+  }, [pipeline, gl]);
+
+  useEffect(() => {
+    pipeline.composer.setPixelRatio(gl.getPixelRatio());
+    pipeline.composer.setSize(size.width, size.height);
+    invalidate();
+  }, [pipeline, gl, size, invalidate]);
+
+  useEffect(() => {
+    const { outlinePass } = pipeline;
+    if (!outlinePass) return;
+    const part = outlinedDomain ? scene.getObjectByName(domainObjectName(outlinedDomain)) : undefined;
+    outlinePass.selectedObjects = part ? [part] : [];
+    invalidate();
+  }, [pipeline, scene, outlinedDomain, invalidate]);
+
+  useFrame((_, delta) => {
+    gl.info.reset();
+    pipeline.composer.render(delta);
+  }, 1);
+  return null;
+}
+
+/* Renders sampled in a row under the fps budget before the automatic quality tier steps down */
+const SLOW_SAMPLES_TO_DOWNGRADE = 4;
+
+/* Watches frame rate while the board animates and reports when it keeps missing the budget */
+function FrameRateProbe({ onSlow }: { onSlow: () => void }) {
+  const slowSamples = useRef(0);
+
+  useRenderBudget(({ fps }) => {
+    if (fps === 0) return; // Idle, nothing to judge
+    slowSamples.current = fps < RENDER_BUDGET.fps ? slowSamples.current + 1 : 0;
+    if (slowSamples.current >= SLOW_SAMPLES_TO_DOWNGRADE) {
+      slowSamples.current = 0;
+      onSlow();
+    }
+  });
+  return null;
+}
+
+/* ---------- Wrapper scene ---------- */
+/* focus comes from a deep link (/board/:domain or ?focus=); onClearFocus drops it from the URL */
+export default function Motherboard3D({ focus = null, onClearFocus = () => {} }: {
+  focus?: DomainId | null,
+  onClearFocus?: () => void,
+}) {
+  const [searchParams] = useSearchParams();
+  // ?detail=low|medium|high forces a tier for this visit; otherwise the settings overlay or the device decides
+  const urlTier = searchParams.get("detail");
+  const quality = useBoardQuality(urlTier);
+  const { settings, compact } = quality;
+  // ?seed= pins the procedural detail (vias, SMD scatter) for screenshots and shared links
+  const seed = searchParams.get("seed") || DEFAULT_BOARD_SEED;
+  const showStats = searchParams.has("stats");
+  const [stats, setStats] = useState<RenderStats | null>(null);
+  const [focusedDomain, setFocusedDomain] = useState<DomainId | null>(null);
+  const boardRef = useRef<BoardHandle>(null);
 
   return (
     <div style={{ 
+      position: "relative",
       width: "100%", 
       height: "100vh", 
       background: "#0b2430", 
@@ -1075,10 +1804,13 @@ export default function Motherboard3D() {
       touchAction: "manipulation" // Better touch handling
     }}>
       <Canvas 
-        shadows={!isMobile} // Disable shadows on mobile for performance
-        dpr={isMobile ? [1, 1.5] : [1, 2]} // Lower DPR for mobile performance
+        // Antialiasing is fixed when the WebGL context is made, so a manual change to it rebuilds the canvas; automatic step-downs leave it alone
+        key={String(settings.antialias)}
+        style={{ touchAction: "none" }} // Drags tilt the board instead of scrolling the page
+        shadows={settings.shadows}
+        dpr={settings.dpr}
         gl={{ 
-          antialias: !isMobile, // Disable antialiasing on mobile for performance
+          antialias: settings.antialias,
           powerPreference: "high-performance",
           alpha: false, // Better performance
           stencil: false // Better performance
@@ -1093,18 +1825,55 @@ export default function Motherboard3D() {
         <pointLight position={[0, 3, 6]} intensity={0.55} />
         <spotLight position={[6, 8, -6]} angle={0.6} intensity={0.25} />
 
-        <Suspense fallback={<Loader />}>
-          {/* Rotatable motherboard component */}
-          <RotatableMotherboard />
-        </Suspense>
+        <BoardQualityContext.Provider value={{ settings, compact }}>
+          <Suspense fallback={<Loader />}>
+            {/* Rotatable motherboard component */}
+            <RotatableMotherboard
+              ref={boardRef}
+              seed={seed}
+              focusedDomain={focusedDomain}
+              focus={focus}
+              onClearFocus={onClearFocus}
+            />
+          </Suspense>
+        </BoardQualityContext.Provider>
+
+        {showStats && <RenderBudgetProbe onSample={setStats} />}
+        <FrameRateProbe onSlow={quality.reportSlowFrames} />
 
         {/* Responsive camera positioning */}
         <PerspectiveCamera 
           makeDefault 
-          position={isMobile ? [0, 0, 25] : [0, 0, 20]} 
-          fov={isMobile ? 60 : 45} 
+          position={compact ? [0, 0, 25] : [0, 0, 20]} 
+          fov={compact ? 60 : 45} 
         />
       </Canvas>
+
+      <BoardNavigator
+        onFocusDomain={setFocusedDomain}
+        onOpenDomain={(domain) => boardRef.current?.openDomain(domain)}
+      />
+
+      {!quality.forced && (
+        <QualityPanel override={quality.override} autoTier={quality.autoTier} onChoose={quality.choose} />
+      )}
+
+      {/* Draw-call / FPS budget readout, red when over budget */}
+      {showStats && stats && (
+        <div style={{
+          position: "absolute",
+          top: 8,
+          left: 8,
+          padding: "4px 8px",
+          background: "rgba(0, 0, 0, 0.6)",
+          color: stats.overBudget ? "#ff5252" : "#81c784",
+          fontFamily: "monospace",
+          fontSize: 12,
+          pointerEvents: "none",
+        }}>
+          {stats.drawCalls}/{RENDER_BUDGET.drawCalls} draw calls · {stats.triangles} tris · {stats.fps || "–"}/{RENDER_BUDGET.fps} fps
+        </div>
+      )}
     </div>
   );
 }
@@ -1,26 +1,29 @@
+import { Suspense } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import Motherboard3D from '../components/motherboard';
-import ManagementPage from './pages/management';
-import ResearchPage from './pages/research';
-import TechPage from './pages/tech';
-import DesignPage from './pages/design';
-import CompetitiveCodingPage from './pages/competitiveCoding';
+import CandidateProvider from './context/CandidateProvider';
+import RequireAdmin from './components/RequireAdmin';
+import RequireCandidate from './components/RequireCandidate';
+import { DOMAIN_REGISTRY } from './domains/registry';
+import AdminPage from './pages/admin';
+import LandingPage from './pages/landing';
+import RegisterPage from './pages/register';
 
 export default function App(){
   return (
-    <Router>
-      <Routes>
-        <Route path="/" element={
-          <div style={{ height: '100vh', width: '100vw', background: '#061018' }}>
-            <Motherboard3D />
-          </div>
-        } />
-        <Route path="/management" element={<ManagementPage />} />
-        <Route path="/competitive-coding" element={<CompetitiveCodingPage />} />
-        <Route path="/tech" element={<TechPage />} />
-        <Route path="/design" element={<DesignPage />} />
-        <Route path="/research" element={<ResearchPage />} />
-      </Routes>
-    </Router>
+    <CandidateProvider>
+      <Router>
+        <Suspense fallback={<div style={{ height: '100vh', width: '100vw', background: '#061018' }} />}>
+          <Routes>
+            <Route path="/" element={<LandingPage />} />
+            <Route path="/board/:domain" element={<LandingPage />} />
+            <Route path="/register" element={<RegisterPage />} />
+            {DOMAIN_REGISTRY.map(domain => (
+              <Route key={domain.id} path={domain.route} element={<RequireCandidate><domain.page /></RequireCandidate>} />
+            ))}
+            <Route path="/admin" element={<RequireAdmin><AdminPage /></RequireAdmin>} />
+          </Routes>
+        </Suspense>
+      </Router>
+    </CandidateProvider>
   );
-}
\ No newline at end of file
+}
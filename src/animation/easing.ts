@@ -0,0 +1,9 @@
+/* Easing curves for tweens: map linear progress in [0, 1] to eased progress in [0, 1] */
+
+export type Easing = (t: number) => number;
+
+export const linear: Easing = t => t;
+
+export const easeOutCubic: Easing = t => 1 - Math.pow(1 - t, 3);
+
+export const easeInOutCubic: Easing = t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
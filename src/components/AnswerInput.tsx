@@ -0,0 +1,49 @@
+import type { ChoiceQuestion, TextQuestion } from '../data/questionBank';
+import './AnswerInput.css';
+
+interface AnswerInputProps {
+  question: TextQuestion | ChoiceQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  rows?: number;
+}
+
+/* Renders the answer control for a question bank item: a textarea for free text, radio options for choice */
+export default function AnswerInput({ question, value, onChange, className, placeholder, disabled, rows }: AnswerInputProps) {
+  if (question.kind === 'choice') {
+    return (
+      <div className={`answer-options ${className ?? ''}`} role="radiogroup">
+        {question.options.map((option) => (
+          <label
+            key={option}
+            className={`answer-option ${value === option ? 'selected' : ''}`}
+          >
+            <input
+              type="radio"
+              name={`${question.domain}-${question.id}`}
+              value={option}
+              checked={value === option}
+              onChange={() => onChange(option)}
+              disabled={disabled}
+            />
+            <span>{option}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <textarea
+      className={className}
+      placeholder={question.placeholder ?? placeholder}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      rows={rows}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import type { ReactNode } from 'react';
+import type { BoardInfo } from '../data/boardInfo';
+import './BoardInfoCard.css';
+
+type CardContent = Pick<BoardInfo, 'part' | 'title' | 'body' | 'link'>;
+
+/*
+  Info card for a board part; onClose is only passed once the card has been
+  pinned with a click or tap. Children are extra actions under the text.
+*/
+export default function BoardInfoCard({ info, onClose, children }: {
+  info: CardContent,
+  onClose?: () => void,
+  children?: ReactNode,
+}) {
+  return (
+    <div className={`board-info-card${onClose ? ' pinned' : ''}`} role="note" aria-label={info.title}>
+      <div className="board-info-part">{info.part}</div>
+      <h3>{info.title}</h3>
+      <p>{info.body}</p>
+      {info.link && (
+        <a href={info.link.href} target="_blank" rel="noopener noreferrer">
+          {info.link.label} →
+        </a>
+      )}
+      {children && <div className="board-info-actions">{children}</div>}
+      {onClose && (
+        <button type="button" className="board-info-close" aria-label="Close" onClick={onClose}>
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { BOARD_PART_NAMES, DOMAIN_REGISTRY, getDomain, type DomainId } from '../domains/registry';
+import './BoardNavigator.css';
+
+interface BoardNavigatorProps {
+  /* Called with null when focus leaves the overlay, so the board drops its highlight */
+  onFocusDomain: (domain: DomainId | null) => void;
+  onOpenDomain: (domain: DomainId) => void;
+}
+
+const describe = (id: DomainId) => {
+  const domain = getDomain(id);
+  return `${domain.label}, ${BOARD_PART_NAMES[domain.board.part]}. ${domain.description}`;
+};
+
+/*
+  Keyboard and screen-reader route into the 3D board. Each domain is a real
+  button: Tab or the arrow keys move between them, the matching board part is
+  highlighted, and Enter opens it the same way a click on the board would.
+  The buttons stay off-screen until one of them has focus.
+*/
+export default function BoardNavigator({ onFocusDomain, onOpenDomain }: BoardNavigatorProps) {
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+  const [announcement, setAnnouncement] = useState('');
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const count = DOMAIN_REGISTRY.length;
+    const next = {
+      ArrowRight: index + 1,
+      ArrowDown: index + 1,
+      ArrowLeft: index - 1,
+      ArrowUp: index - 1,
+      Home: 0,
+      End: count - 1,
+    }[e.key];
+    if (next === undefined) return;
+    e.preventDefault();
+    buttons.current[(next + count) % count]?.focus();
+  };
+
+  return (
+    <nav className="board-navigator" aria-label="Recruitment domains">
+      <ul>
+        {DOMAIN_REGISTRY.map((domain, i) => (
+          <li key={domain.id}>
+            <button
+              ref={(el) => { buttons.current[i] = el; }}
+              onFocus={() => {
+                onFocusDomain(domain.id);
+                setAnnouncement(describe(domain.id));
+              }}
+              onBlur={() => onFocusDomain(null)}
+              onKeyDown={(e) => handleKeyDown(e, i)}
+              onClick={() => {
+                setAnnouncement(`Opening ${domain.label}`);
+                onOpenDomain(domain.id);
+              }}
+            >
+              {domain.label}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="board-navigator-live" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+    </nav>
+  );
+}
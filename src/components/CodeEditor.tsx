@@ -0,0 +1,193 @@
+import { useLayoutEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { CLOSING_BRACKETS, OPENING_BRACKETS, findMatchingBracket, tokenize } from '../editor/highlight';
+import { LANGUAGES, type Language } from '../editor/languages';
+import './CodeEditor.css';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language: Language;
+  className?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+const lineStartOf = (text: string, index: number) => text.lastIndexOf('\n', index - 1) + 1;
+
+/*
+  Textarea with a syntax-highlighted <pre> layered underneath it. The textarea
+  keeps native editing, selection and IME; the layer only paints colours.
+*/
+export default function CodeEditor({ value, onChange, language, className, placeholder, disabled }: CodeEditorProps) {
+  const spec = LANGUAGES[language];
+  const indentUnit = ' '.repeat(spec.tabSize);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  // Selection to restore after a programmatic edit re-renders the textarea
+  const pendingSelection = useRef<Selection | null>(null);
+  // Escape releases the Tab key so keyboard users can still leave the editor
+  const tabReleased = useRef(false);
+  const [caret, setCaret] = useState<number | null>(null);
+
+  const tokens = useMemo(() => tokenize(value, spec), [value, spec]);
+
+  const matchedBrackets = useMemo(() => {
+    if (caret === null) return new Set<number>();
+    // Prefer the bracket just before the caret, like most editors
+    for (const index of [caret - 1, caret]) {
+      const match = findMatchingBracket(tokens, index);
+      if (match !== -1) return new Set([index, match]);
+    }
+    return new Set<number>();
+  }, [tokens, caret]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const selection = pendingSelection.current;
+    if (!textarea || !selection) return;
+    pendingSelection.current = null;
+    textarea.setSelectionRange(selection.start, selection.end);
+    setCaret(selection.end);
+  }, [value]);
+
+  const applyEdit = (next: string, selection: Selection) => {
+    pendingSelection.current = selection;
+    onChange(next);
+  };
+
+  const syncScroll = () => {
+    if (!textareaRef.current || !highlightRef.current) return;
+    highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+    highlightRef.current.scrollLeft = textareaRef.current.scrollLeft;
+  };
+
+  const indentLines = (start: number, end: number, outdent: boolean) => {
+    const blockStart = lineStartOf(value, start);
+    // A selection ending at the start of a line doesn't include that line
+    const blockEnd = end > start && value[end - 1] === '\n' ? end - 1 : end;
+    const lines = value.slice(blockStart, blockEnd).split('\n');
+
+    let firstShift = 0;
+    let totalShift = 0;
+    const shifted = lines.map((line, i) => {
+      let delta: number;
+      let result: string;
+      if (outdent) {
+        const removable = line.match(/^ */)![0].length;
+        delta = -Math.min(removable, spec.tabSize);
+        result = line.slice(-delta);
+      } else {
+        delta = indentUnit.length;
+        result = indentUnit + line;
+      }
+      if (i === 0) firstShift = delta;
+      totalShift += delta;
+      return result;
+    });
+
+    applyEdit(value.slice(0, blockStart) + shifted.join('\n') + value.slice(blockEnd), {
+      start: Math.max(blockStart, start + firstShift),
+      end: end + totalShift,
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keys that confirm or steer an IME composition belong to the IME (Safari reports them as keyCode 229)
+    if (e.nativeEvent.isComposing || e.nativeEvent.keyCode === 229) return;
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+
+    if (e.key === 'Escape') {
+      tabReleased.current = true;
+      return;
+    }
+
+    if (e.key === 'Tab') {
+      if (tabReleased.current) return;
+      e.preventDefault();
+      if (e.shiftKey || value.slice(start, end).includes('\n')) {
+        indentLines(start, end, e.shiftKey);
+      } else {
+        applyEdit(value.slice(0, start) + indentUnit + value.slice(end), {
+          start: start + indentUnit.length,
+          end: start + indentUnit.length,
+        });
+      }
+      return;
+    }
+    tabReleased.current = false;
+
+    if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      const lineStart = lineStartOf(value, start);
+      const currentIndent = value.slice(lineStart, start).match(/^[ \t]*/)![0];
+      const before = value.slice(lineStart, start).trimEnd();
+      const opener = before[before.length - 1];
+      const opens = opener !== undefined && spec.indentAfter.includes(opener);
+      const nextIndent = opens ? currentIndent + indentUnit : currentIndent;
+
+      // Enter between a bracket pair puts the closer on its own line
+      const closer = OPENING_BRACKETS.includes(opener ?? '')
+        ? CLOSING_BRACKETS[OPENING_BRACKETS.indexOf(opener)]
+        : undefined;
+      const insert = closer !== undefined && value[end] === closer
+        ? `\n${nextIndent}\n${currentIndent}`
+        : `\n${nextIndent}`;
+      const caretAt = start + 1 + nextIndent.length;
+      applyEdit(value.slice(0, start) + insert + value.slice(end), { start: caretAt, end: caretAt });
+      return;
+    }
+
+    // Typing a closer right after its line's indentation dedents it one level
+    if (CLOSING_BRACKETS.includes(e.key) && start === end) {
+      const lineStart = lineStartOf(value, start);
+      const leading = value.slice(lineStart, start);
+      if (leading.length >= spec.tabSize && /^ +$/.test(leading)) {
+        e.preventDefault();
+        const dedented = leading.slice(spec.tabSize);
+        const caretAt = lineStart + dedented.length + 1;
+        applyEdit(value.slice(0, lineStart) + dedented + e.key + value.slice(end), { start: caretAt, end: caretAt });
+      }
+    }
+  };
+
+  return (
+    <div className={`code-editor ${disabled ? 'disabled' : ''} ${className ?? ''}`}>
+      <pre className="code-editor-highlight" ref={highlightRef} aria-hidden="true">
+        <code>
+          {tokens.map(token => (
+            <span
+              key={token.start}
+              className={`token-${token.type} ${matchedBrackets.has(token.start) ? 'bracket-match' : ''}`}
+            >
+              {token.text}
+            </span>
+          ))}
+          {/* Keeps the layer as tall as the textarea when the text ends in a newline */}
+          {'\n'}
+        </code>
+      </pre>
+      <textarea
+        ref={textareaRef}
+        className="code-editor-input"
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        aria-label={`${spec.label} solution`}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart === e.currentTarget.selectionEnd ? e.currentTarget.selectionStart : null)}
+        onBlur={() => setCaret(null)}
+        onScroll={syncScroll}
+      />
+    </div>
+  );
+}
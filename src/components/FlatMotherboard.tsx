@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DOMAIN_REGISTRY, type BoardPart, type DomainId } from '../domains/registry';
+import { isComplete, loadBoardProgress } from '../services/domainProgress';
+import './FlatMotherboard.css';
+
+/*
+  Top-down SVG version of the motherboard for reduced motion and browsers
+  without WebGL. It uses the 3D board's coordinates (x across, z down the
+  board) so parts sit where they do in 3D, and it opens domains straight away
+  with no zoom. A deep-linked domain is highlighted and given focus.
+*/
+
+type Rect = [x: number, y: number, width: number, height: number];
+
+const slot = (x: number, y: number, length: number, width: number, fill: string, inner: string) => (
+  <g key={`${x},${y}`}>
+    <rect x={x - length / 2} y={y - width / 2} width={length} height={width} fill={fill} />
+    <rect x={x - length * 0.48} y={y - width * 0.36} width={length * 0.96} height={width * 0.72} fill={inner} />
+  </g>
+);
+
+/* Same footprints as the 3D parts, seen from above */
+const FLAT_PARTS: Record<BoardPart, () => React.ReactNode> = {
+  'pci-slots': () => [-1.8, -0.6, 0.6, 1.8].map(z => slot(0, z, 4.0, 0.36, '#e6d6b2', '#cdbf9d')),
+  heatsink: () => (
+    <g>
+      <rect x={-1.1} y={-0.7} width={2.2} height={1.4} fill="#cc5500" />
+      {Array.from({ length: 9 }, (_, i) => (
+        <rect key={i} x={-1.1 + i * (2.2 / 9) + 0.018} y={-0.665} width={(2.2 / 9) * 0.85} height={1.33} fill="#ff6600" />
+      ))}
+    </g>
+  ),
+  cpu: () => (
+    <g>
+      <rect x={-1.16} y={-1.16} width={2.32} height={2.32} fill="#f5f5dc" />
+      <rect x={-1.1} y={-1.1} width={2.2} height={2.2} fill="#e8e8e8" />
+      <text className="flat-part-text" y={0.12} fontSize={0.35}>AMD</text>
+    </g>
+  ),
+  ram: () => [0, 1, 2, 3].map(i => slot(0, i * 0.4 - 0.6, 3.5, 0.32, '#d4b341', '#b8a532')),
+  pcie: () => (
+    <g>
+      {slot(0, 0, 7.0, 0.36, '#1e3a8a', '#1e40af')}
+      {slot(0, 0.8, 5.0, 0.36, '#1e3a8a', '#1e40af')}
+      {slot(2.5, -0.5, 3.5, 0.36, '#1e3a8a', '#1e40af')}
+    </g>
+  ),
+  chipset: () => <rect x={-0.6} y={-0.6} width={1.2} height={1.2} fill="#1a1a1a" />,
+};
+
+/* Outline drawn around a part when its hotspot is hovered or focused */
+const PART_BOUNDS: Record<BoardPart, Rect> = {
+  'pci-slots': [-2.1, -2.1, 4.2, 4.2],
+  heatsink: [-1.25, -0.85, 2.5, 1.7],
+  cpu: [-1.3, -1.3, 2.6, 2.6],
+  ram: [-1.9, -0.9, 3.8, 1.8],
+  pcie: [-3.65, -0.8, 7.55, 1.95],
+  chipset: [-0.75, -0.75, 1.5, 1.5],
+};
+
+const chipsetIsDomain = DOMAIN_REGISTRY.some(domain => domain.board.part === 'chipset');
+
+export default function FlatMotherboard({ focus = null }: { focus?: DomainId | null }) {
+  const navigate = useNavigate();
+  const [progress] = useState(loadBoardProgress);
+  const links = useRef<Partial<Record<DomainId, HTMLOrSVGElement | null>>>({});
+
+  useEffect(() => {
+    if (focus) links.current[focus]?.focus();
+  }, [focus]);
+
+  // Real links so they can be focused, announced and opened in a new tab; same-tab clicks go through the router
+  const handleOpen = (e: MouseEvent, route: string) => {
+    if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+    e.preventDefault();
+    navigate(route);
+  };
+
+  return (
+    <nav className="flat-board" aria-label="Recruitment domains">
+      <svg viewBox="-7 -6 14 12" preserveAspectRatio="xMidYMid meet">
+        <title>ACM motherboard</title>
+
+        {/* PCB and grid */}
+        <rect x={-7} y={-6} width={14} height={12} fill="#2d5016" />
+        <g stroke="#1a3d0a" strokeWidth={0.01} opacity={0.6}>
+          {Array.from({ length: 20 }, (_, i) => (
+            <line key={`v-${i}`} x1={-7 + i * (14 / 19)} y1={-6} x2={-7 + i * (14 / 19)} y2={6} />
+          ))}
+          {Array.from({ length: 16 }, (_, i) => (
+            <line key={`h-${i}`} x1={-7} y1={-6 + i * 0.8} x2={7} y2={-6 + i * 0.8} />
+          ))}
+        </g>
+
+        {/* Decorative parts, matching the 3D layout */}
+        <g aria-hidden="true">
+          <rect x={1.8 - 0.1} y={-5.3} width={1.4} height={0.6} fill="#ff87c7" />
+          <rect x={1.8 - 1.1} y={-5.25} width={0.6} height={0.5} fill="#00ff00" />
+          <rect x={1.8 - 2.05} y={-5.25} width={0.9} height={0.5} fill="#cbd5e1" />
+          <rect x={3.7} y={-5.4} width={1.6} height={0.4} fill="#2a2a2a" />
+          <rect x={-4.2} y={-5.8} width={0.4} height={1.6} fill="#2a2a2a" />
+          <circle cx={-3.5} cy={4.5} r={0.5} fill="#cfcfcf" />
+          <rect x={-2.55} y={1.07} width={1.1} height={0.26} fill="#8b6e48" />
+          {!chipsetIsDomain && <rect x={-0.8} y={0.2} width={1.2} height={1.2} fill="#1a1a1a" />}
+          <rect x={1.2} y={-2.3} width={0.6} height={0.6} fill="#1a1a1a" />
+          <rect x={-2.9} y={1.6} width={0.8} height={0.8} fill="#1a1a1a" />
+          <rect x={4.8} y={-1.2} width={0.4} height={0.4} fill="#1a1a1a" />
+          <text className="flat-silkscreen" x={4.5} y={-4.7} fontSize={0.22}>24-pin</text>
+          <text className="flat-silkscreen" x={-4.0} y={-3.9} fontSize={0.22}>8-pin</text>
+        </g>
+
+        {/* Domain hotspots */}
+        {DOMAIN_REGISTRY.map(({ id, label, description, route, board }) => {
+          const [x, , z] = board.position;
+          const [bx, by, bw, bh] = PART_BOUNDS[board.part];
+          const fontSize = board.labelSize ?? 0.35;
+          const { questions, submitted, total } = progress[id];
+          const complete = isComplete(progress[id]);
+          return (
+            <a
+              key={id}
+              ref={(el) => { links.current[id] = el; }}
+              className={`flat-domain${complete ? ' complete' : ''}${id === focus ? ' focused' : ''}`}
+              href={route}
+              aria-label={`${label}: ${description}. ${submitted} of ${total} answers submitted`}
+              onClick={(e) => handleOpen(e, route)}
+            >
+              <g transform={`translate(${x} ${z})`}>
+                {FLAT_PARTS[board.part]()}
+                <rect className="flat-domain-outline" x={bx} y={by} width={bw} height={bh} />
+                <text
+                  className="flat-domain-label"
+                  x={board.labelOffset[0]}
+                  y={board.labelOffset[2]}
+                  fontSize={fontSize}
+                >
+                  {label.toLowerCase()}
+                </text>
+                {/* One LED per question, lit once it's submitted */}
+                {questions.map((question, i) => (
+                  <circle
+                    key={question.id}
+                    className={`flat-led${question.submitted ? ' lit' : ''}`}
+                    cx={board.labelOffset[0] + (i - (questions.length - 1) / 2) * 0.14}
+                    cy={board.labelOffset[2] + fontSize * 0.9}
+                    r={0.045}
+                  />
+                ))}
+              </g>
+            </a>
+          );
+        })}
+      </svg>
+    </nav>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { QUALITY_TIERS, type QualityOverride, type QualityTier } from '../hooks/useBoardQuality';
+import './QualityPanel.css';
+
+interface QualityPanelProps {
+  override: QualityOverride;
+  /* What "auto" currently resolves to on this device */
+  autoTier: QualityTier;
+  onChoose: (choice: QualityOverride) => void;
+}
+
+const CHOICES: QualityOverride[] = ['auto', ...QUALITY_TIERS];
+
+/* Gear button and panel in the corner of the 3D board for forcing a quality tier */
+export default function QualityPanel({ override, autoTier, onChoose }: QualityPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="quality-panel">
+      {open && (
+        <fieldset id="quality-panel-options">
+          <legend>Board quality</legend>
+          {CHOICES.map(choice => (
+            <label key={choice}>
+              <input
+                type="radio"
+                name="board-quality"
+                value={choice}
+                checked={override === choice}
+                onChange={() => onChoose(choice)}
+              />
+              {choice === 'auto' ? `auto (${autoTier})` : choice}
+            </label>
+          ))}
+        </fieldset>
+      )}
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-controls="quality-panel-options"
+        onClick={() => setOpen(!open)}
+      >
+        ⚙ Quality
+      </button>
+    </div>
+  );
+}
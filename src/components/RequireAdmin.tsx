@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { isAdminSignedIn, startAdminSession } from '../services/adminSession';
+import { getSubmissionAdapter } from '../services/submission';
+import './RequireAdmin.css';
+
+/* Route guard for the review dashboard: asks for the reviewer passcode in place of the page and has the backend check it */
+export default function RequireAdmin({ children }: { children: React.ReactNode }) {
+  const navigate = useNavigate();
+  const [signedIn, setSignedIn] = useState(isAdminSignedIn);
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  if (signedIn) return <>{children}</>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    try {
+      startAdminSession(await getSubmissionAdapter().signInReviewer(passcode));
+      setSignedIn(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setPasscode('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="admin-gate">
+      <form className="admin-gate-panel" onSubmit={(e) => void handleSubmit(e)}>
+        <h1>Reviewer Access</h1>
+        <label className="admin-gate-field">
+          <span>Passcode</span>
+          <input
+            type="password"
+            value={passcode}
+            onChange={(e) => {
+              setPasscode(e.target.value);
+              setError(null);
+            }}
+            autoComplete="current-password"
+            autoFocus
+            aria-invalid={!!error}
+          />
+        </label>
+        {error && <div className="admin-gate-error" role="alert">{error}</div>}
+        <div className="admin-gate-actions">
+          <button type="button" className="secondary" onClick={() => navigate('/')}>
+            ← Motherboard
+          </button>
+          <button type="submit" disabled={checking || !passcode}>
+            {checking ? 'Checking...' : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useCandidate } from '../context/candidate';
+
+/* Route guard: domain pages are only reachable once the visitor has registered */
+export default function RequireCandidate({ children }: { children: React.ReactNode }) {
+  const { candidate } = useCandidate();
+  const location = useLocation();
+
+  if (!candidate) {
+    return <Navigate to={`/register?next=${encodeURIComponent(location.pathname)}`} replace />;
+  }
+
+  return <>{children}</>;
+}
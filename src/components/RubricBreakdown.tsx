@@ -0,0 +1,32 @@
+import type { ScoreBreakdown } from '../scoring/rubric';
+import './RubricBreakdown.css';
+
+interface RubricBreakdownProps {
+  breakdown: ScoreBreakdown;
+  className?: string;
+}
+
+/* Explains a rubric score: the length check and which concepts the answer covered */
+export default function RubricBreakdown({ breakdown, className }: RubricBreakdownProps) {
+  return (
+    <div className={`rubric-breakdown ${className ?? ''}`}>
+      <div className="rubric-score">
+        <span className="rubric-points">{breakdown.score}/{breakdown.maxScore} pts</span>
+        <span className="rubric-summary">{breakdown.summary}</span>
+      </div>
+      <ul className="rubric-concepts">
+        <li className={breakdown.meetsLength ? 'hit' : 'miss'}>
+          <span className="rubric-mark">{breakdown.meetsLength ? '✓' : '✗'}</span>
+          Length {breakdown.length}/{breakdown.minLength}+ characters
+        </li>
+        {breakdown.concepts.map(concept => (
+          <li key={concept.label} className={concept.matched ? 'hit' : 'miss'}>
+            <span className="rubric-mark">{concept.matched ? '✓' : '✗'}</span>
+            {concept.label}
+            <span className="rubric-weight">×{concept.weight}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
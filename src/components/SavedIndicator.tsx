@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import './SavedIndicator.css';
+
+const describeAge = (seconds: number) => {
+  if (seconds < 5) return 'just now';
+  if (seconds < 60) return `${seconds} seconds ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+};
+
+/* "Draft saved N seconds ago" badge shown on every domain page, plus any submissions waiting to sync or refused */
+export default function SavedIndicator({ savedAt, pending = 0, rejected = null }: {
+  savedAt: number | null,
+  pending?: number,
+  rejected?: string | null,
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const seconds = savedAt === null ? null : Math.max(0, Math.floor((now - savedAt) / 1000));
+
+  return (
+    <div className="saved-indicator">
+      <span className={`saved-dot ${savedAt === null ? 'idle' : 'saved'}`}></span>
+      {/* Live regions hold only what changes on an event; the ticking age outside them would be announced every second */}
+      <span role="status" aria-live="polite">{savedAt === null ? 'Draft not saved yet' : 'Draft saved'}</span>
+      {seconds !== null && <span>{describeAge(seconds)}</span>}
+      <span className="sync-events" aria-live="polite">
+        {pending > 0 && (
+          <span className="pending-sync">
+            · {pending} submission{pending === 1 ? '' : 's'} waiting to sync
+          </span>
+        )}
+        {rejected && (
+          <span className="sync-rejected">
+            · Submission refused ({rejected}); the answer is open to fix and submit again
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useCallback, useMemo, useState } from 'react';
+import { createId } from '../utils/id';
+import { CandidateContext, type Candidate, type CandidateDetails } from './candidate';
+
+const STORAGE_KEY = 'acm-motherboard:candidate';
+
+function readCandidate(): Candidate | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as Candidate : null;
+  } catch {
+    return null;
+  }
+}
+
+/* Holds the registered candidate for the whole app; persisted so a reload keeps them signed in */
+export default function CandidateProvider({ children }: { children: React.ReactNode }) {
+  const [candidate, setCandidate] = useState<Candidate | null>(readCandidate);
+
+  // Updating details keeps the id, so earlier submissions stay with the same candidate
+  const register = useCallback((details: CandidateDetails) => {
+    const next: Candidate = {
+      ...details,
+      id: candidate?.id ?? createId(),
+      registeredAt: candidate?.registeredAt ?? new Date().toISOString(),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setCandidate(next);
+    return next;
+  }, [candidate]);
+
+  const value = useMemo(() => ({ candidate, register }), [candidate, register]);
+
+  return (
+    <CandidateContext.Provider value={value}>
+      {children}
+    </CandidateContext.Provider>
+  );
+}
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import type { Domain } from '../data/questionBank';
+
+export type StudyYear = '1' | '2' | '3' | '4' | 'PG';
+
+export interface Candidate {
+  id: string;
+  name: string;
+  rollNumber: string;
+  email: string;
+  year: StudyYear;
+  preferredDomains: Domain[];
+  registeredAt: string;
+}
+
+export type CandidateDetails = Omit<Candidate, 'id' | 'registeredAt'>;
+
+export interface CandidateContextValue {
+  candidate: Candidate | null;
+  register: (details: CandidateDetails) => Candidate;
+}
+
+export const CandidateContext = createContext<CandidateContextValue | null>(null);
+
+export function useCandidate() {
+  const value = useContext(CandidateContext);
+  if (!value) {
+    throw new Error('useCandidate must be used inside <CandidateProvider>');
+  }
+  return value;
+}
@@ -0,0 +1,82 @@
+import type { Vec3 } from '../domains/registry';
+
+/*
+  Decorative board parts that open an info card on hover or tap. Each entry
+  is a hover area in board coordinates (the same space as the domain
+  registry), so the cards work on both the primitive and the model board.
+  Links are only shown when their URL is configured in the environment.
+*/
+
+export interface BoardInfoLink {
+  label: string;
+  href: string;
+}
+
+export interface BoardInfo {
+  id: string;
+  /* Silkscreen name of the part, shown above the title */
+  part: string;
+  title: string;
+  body: string;
+  /* Centre and size of the hover area */
+  position: Vec3;
+  size: Vec3;
+  link?: BoardInfoLink;
+}
+
+const link = (label: string, href: string | undefined): BoardInfoLink | undefined =>
+  href ? { label, href } : undefined;
+
+export const BOARD_INFO: BoardInfo[] = [
+  {
+    id: 'usb',
+    part: 'USB I/O',
+    title: 'Events',
+    body: 'Workshops, hackathons, contests and talks run all year, and they are open to every member.',
+    position: [2.4, 0.18, -5.0],
+    size: [1.5, 0.5, 0.7],
+    link: link('See upcoming events', import.meta.env.VITE_ACM_EVENTS_URL),
+  },
+  {
+    id: 'ethernet',
+    part: 'Ethernet',
+    title: 'Contact',
+    body: 'Questions about recruitment or the club? Get in touch with the recruitment team.',
+    position: [1.0, 0.18, -5.0],
+    size: [0.7, 0.5, 0.6],
+    link: link('Contact us', import.meta.env.VITE_ACM_CONTACT_URL),
+  },
+  {
+    id: 'battery',
+    part: 'CMOS battery',
+    title: 'FAQ',
+    body: 'Answers are saved in this browser as you type, so you can leave and come back. Domains can be done in any order, and you can apply to more than one.',
+    position: [-3.5, 0.12, 4.5],
+    size: [1.1, 0.4, 1.1],
+    link: link('Read the FAQ', import.meta.env.VITE_ACM_FAQ_URL),
+  },
+  {
+    id: 'atx-power',
+    part: 'ATX_PWR',
+    title: 'About ACM',
+    body: 'The student chapter of the Association for Computing Machinery. We build, compete, research and run events together.',
+    position: [4.5, 0.2, -5.2],
+    size: [1.8, 0.5, 0.6],
+  },
+  {
+    id: 'cpu-power',
+    part: 'CPU_PWR',
+    title: 'How recruitment works',
+    body: 'Register once, then pick a domain on the board. Each one has its own questions; LEDs under its name light up as you submit answers.',
+    position: [-4.0, 0.2, -5.0],
+    size: [0.6, 0.5, 1.8],
+  },
+  {
+    id: 'support-chip',
+    part: 'Support chip',
+    title: 'Built by members',
+    body: 'This board, the code runner and the review dashboard are written and maintained by club members.',
+    position: [5.0, 0.08, -1.0],
+    size: [0.6, 0.3, 0.6],
+  },
+];
@@ -0,0 +1,343 @@
+import { DOMAIN_REGISTRY, getDomain, type DomainId } from '../domains/registry';
+
+/*
+  Question bank schema + loader.
+  Every domain keeps its questions in src/data/questions/<domain>.json so the
+  recruitment team can rotate them each semester without touching the pages.
+  Files are validated when loaded; a malformed bank fails loudly at startup.
+  The list of domains itself lives in src/domains/registry.ts.
+*/
+
+export type Domain = DomainId;
+
+export const DOMAINS: Domain[] = DOMAIN_REGISTRY.map(domain => domain.id);
+
+export const domainLabel = (domain: Domain) => getDomain(domain).label;
+
+export type QuestionKind = 'text' | 'code' | 'choice';
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+/* A concept the answer should cover; matched when any keyword appears in the answer as a whole word */
+export interface RubricConcept {
+  label: string;
+  /* Words or phrases in every accepted form; only a plural "s"/"es" is added automatically */
+  keywords: string[];
+  weight: number;
+}
+
+/* Automatic scoring guide for written answers; see src/scoring/rubric.ts */
+export interface Rubric {
+  minLength: number;
+  concepts: RubricConcept[];
+}
+
+interface BaseQuestion {
+  id: number;
+  domain: Domain;
+  kind: QuestionKind;
+  points: number;
+  category?: string;
+  placeholder?: string;
+  /* Questions without a rubric are left to the reviewers */
+  rubric?: Rubric;
+}
+
+/* Free-text answer */
+export interface TextQuestion extends BaseQuestion {
+  kind: 'text';
+  question: string;
+}
+
+/* Single answer picked from a fixed list of options */
+export interface ChoiceQuestion extends BaseQuestion {
+  kind: 'choice';
+  question: string;
+  options: string[];
+}
+
+/*
+  Judge case kept out of the problem view; only its verdict is shown. The
+  banks ship in the client bundle, so anyone can read these cases and the
+  judge's score is advisory only: reviewers decide the final mark.
+*/
+export interface TestCase {
+  input: string;
+  output: string;
+  weight: number;
+}
+
+/* Value type of one input line; array lines hold `length` whitespace-separated values */
+export type InputType = 'int' | 'string' | 'int[]' | 'string[]';
+
+/*
+  One line of a problem's stdin, used to generate starter templates.
+  A scalar line declares one or more variables; an array line declares exactly one.
+  A line with `repeat` occurs that many times and is collected into `as`.
+*/
+export interface InputLine {
+  vars: string[];
+  type: InputType;
+  length?: string;
+  repeat?: string;
+  as?: string;
+}
+
+/* Programming problem with a sample run */
+export interface CodeQuestion extends BaseQuestion {
+  kind: 'code';
+  title: string;
+  description: string;
+  difficulty: Difficulty;
+  timeLimit: string;
+  memoryLimit: string;
+  sampleInput: string;
+  sampleOutput: string;
+  /* Hardware concept the problem is themed on, shown as a tag */
+  ramConcept?: string;
+  /* Line-by-line stdin layout; problems without it get a generic template */
+  inputFormat?: InputLine[];
+  tests: TestCase[];
+}
+
+export type Question = TextQuestion | ChoiceQuestion | CodeQuestion;
+
+export interface QuestionBank<Q extends Question = Question> {
+  domain: Domain;
+  questions: Q[];
+}
+
+export class QuestionBankError extends Error {
+  constructor(domain: string, message: string) {
+    super(`[question bank: ${domain}] ${message}`);
+    this.name = 'QuestionBankError';
+  }
+}
+
+/* ---------- Validation ---------- */
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readString(item: RawRecord, key: string, path: string, fail: (msg: string) => never, optional = false) {
+  const value = item[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string' || (!optional && !value.trim())) {
+    fail(`${path}.${key} must be a non-empty string`);
+  }
+  return value as string;
+}
+
+function readNumber(item: RawRecord, key: string, path: string, fail: (msg: string) => never) {
+  const value = item[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    fail(`${path}.${key} must be a non-negative number`);
+  }
+  return value as number;
+}
+
+function validateTests(raw: unknown, path: string, fail: (msg: string) => never): TestCase[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) fail(`${path}.tests must be an array`);
+
+  return (raw as unknown[]).map((test, i) => {
+    const testPath = `${path}.tests[${i}]`;
+    if (!isRecord(test)) fail(`${testPath} must be an object`);
+    const item = test as RawRecord;
+    if (typeof item.input !== 'string') fail(`${testPath}.input must be a string`);
+    if (typeof item.output !== 'string') fail(`${testPath}.output must be a string`);
+    const weight = item.weight ?? 1;
+    if (typeof weight !== 'number' || !(weight > 0)) fail(`${testPath}.weight must be a positive number`);
+    return { input: item.input as string, output: item.output as string, weight: weight as number };
+  });
+}
+
+function validateRubric(raw: unknown, path: string, fail: (msg: string) => never): Rubric | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) fail(`${path}.rubric must be an object`);
+  const item = raw as RawRecord;
+
+  const minLength = item.minLength ?? 0;
+  if (typeof minLength !== 'number' || !Number.isInteger(minLength) || minLength < 0) {
+    fail(`${path}.rubric.minLength must be a non-negative integer`);
+  }
+  if (!Array.isArray(item.concepts)) fail(`${path}.rubric.concepts must be an array`);
+
+  const concepts = (item.concepts as unknown[]).map((concept, i) => {
+    const conceptPath = `${path}.rubric.concepts[${i}]`;
+    if (!isRecord(concept)) fail(`${conceptPath} must be an object`);
+    const entry = concept as RawRecord;
+    const keywords = entry.keywords;
+    if (!Array.isArray(keywords) || keywords.length === 0 || keywords.some(k => typeof k !== 'string' || !k.trim())) {
+      fail(`${conceptPath}.keywords must list non-empty strings`);
+    }
+    const weight = entry.weight ?? 1;
+    if (typeof weight !== 'number' || !(weight > 0)) fail(`${conceptPath}.weight must be a positive number`);
+    return {
+      label: readString(entry, 'label', conceptPath, fail)!,
+      keywords: keywords as string[],
+      weight: weight as number,
+    };
+  });
+
+  return { minLength: minLength as number, concepts };
+}
+
+const INPUT_TYPES: InputType[] = ['int', 'string', 'int[]', 'string[]'];
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function validateInputFormat(raw: unknown, path: string, fail: (msg: string) => never): InputLine[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || raw.length === 0) fail(`${path}.inputFormat must be a non-empty array`);
+
+  const declared = new Set<string>();
+  const checkDeclared = (name: unknown, field: string) => {
+    if (typeof name !== 'string' || !declared.has(name)) {
+      fail(`${field} must name a variable declared on an earlier line`);
+    }
+    return name as string;
+  };
+
+  return (raw as unknown[]).map((line, i) => {
+    const linePath = `${path}.inputFormat[${i}]`;
+    if (!isRecord(line)) fail(`${linePath} must be an object`);
+    const item = line as RawRecord;
+
+    const vars = item.vars;
+    if (!Array.isArray(vars) || vars.length === 0 || vars.some(v => typeof v !== 'string' || !IDENTIFIER.test(v))) {
+      fail(`${linePath}.vars must list identifiers`);
+    }
+    const type = item.type ?? 'int';
+    if (!INPUT_TYPES.includes(type as InputType)) fail(`${linePath}.type must be one of ${INPUT_TYPES.join(', ')}`);
+
+    const parsed: InputLine = { vars: vars as string[], type: type as InputType };
+    if (parsed.type.endsWith('[]')) {
+      if (parsed.vars.length !== 1) fail(`${linePath}.vars must hold a single name for an array line`);
+      parsed.length = checkDeclared(item.length, `${linePath}.length`);
+    }
+    if (item.repeat !== undefined) {
+      if (parsed.type.endsWith('[]')) fail(`${linePath} cannot repeat an array line`);
+      parsed.repeat = checkDeclared(item.repeat, `${linePath}.repeat`);
+      if (typeof item.as !== 'string' || !IDENTIFIER.test(item.as)) fail(`${linePath}.as must name the collected rows`);
+      parsed.as = item.as as string;
+    }
+
+    // Repeated lines are only reachable through their collection
+    for (const name of parsed.as ? [parsed.as] : parsed.vars) {
+      if (declared.has(name)) fail(`${linePath} redeclares "${name}"`);
+      declared.add(name);
+    }
+    return parsed;
+  });
+}
+
+function validateQuestion(raw: unknown, index: number, domain: Domain, fail: (msg: string) => never): Question {
+  const path = `questions[${index}]`;
+  if (!isRecord(raw)) fail(`${path} must be an object`);
+  const item = raw as RawRecord;
+
+  const id = readNumber(item, 'id', path, fail);
+  if (!Number.isInteger(id)) fail(`${path}.id must be an integer`);
+
+  const base = {
+    id,
+    domain,
+    points: readNumber(item, 'points', path, fail),
+    category: readString(item, 'category', path, fail, true),
+    placeholder: readString(item, 'placeholder', path, fail, true),
+    rubric: validateRubric(item.rubric, path, fail),
+  };
+
+  switch (item.kind) {
+    case 'text':
+      return { ...base, kind: 'text', question: readString(item, 'question', path, fail)! };
+    case 'choice': {
+      const options = item.options;
+      if (!Array.isArray(options) || options.length < 2 || options.some(o => typeof o !== 'string' || !o.trim())) {
+        fail(`${path}.options must list at least two non-empty strings`);
+      }
+      return {
+        ...base,
+        kind: 'choice',
+        question: readString(item, 'question', path, fail)!,
+        options: options as string[],
+      };
+    }
+    case 'code': {
+      const difficulty = item.difficulty;
+      if (difficulty !== 'Easy' && difficulty !== 'Medium' && difficulty !== 'Hard') {
+        fail(`${path}.difficulty must be one of Easy, Medium, Hard`);
+      }
+      return {
+        ...base,
+        kind: 'code',
+        title: readString(item, 'title', path, fail)!,
+        description: readString(item, 'description', path, fail)!,
+        difficulty: difficulty as Difficulty,
+        timeLimit: readString(item, 'timeLimit', path, fail)!,
+        memoryLimit: readString(item, 'memoryLimit', path, fail)!,
+        sampleInput: readString(item, 'sampleInput', path, fail)!,
+        sampleOutput: readString(item, 'sampleOutput', path, fail)!,
+        ramConcept: readString(item, 'ramConcept', path, fail, true),
+        inputFormat: validateInputFormat(item.inputFormat, path, fail),
+        tests: validateTests(item.tests, path, fail),
+      };
+    }
+    default:
+      return fail(`${path}.kind must be one of text, code, choice`);
+  }
+}
+
+export function validateQuestionBank(raw: unknown, domain: Domain): QuestionBank {
+  const fail = (message: string): never => {
+    throw new QuestionBankError(domain, message);
+  };
+
+  if (!isRecord(raw)) fail('file must contain a JSON object');
+  const bank = raw as RawRecord;
+
+  if (bank.domain !== domain) fail(`"domain" is ${JSON.stringify(bank.domain)}, expected "${domain}"`);
+  if (!Array.isArray(bank.questions) || bank.questions.length === 0) fail('"questions" must be a non-empty array');
+
+  const questions = (bank.questions as unknown[]).map((q, i) => validateQuestion(q, i, domain, fail));
+
+  const seen = new Set<number>();
+  for (const q of questions) {
+    if (seen.has(q.id)) fail(`duplicate question id ${q.id}`);
+    seen.add(q.id);
+  }
+
+  return { domain, questions };
+}
+
+/* ---------- Loader ---------- */
+
+const bankFiles = import.meta.glob('./questions/*.json', { eager: true, import: 'default' });
+
+const cache = new Map<Domain, QuestionBank>();
+
+export function loadQuestionBank(domain: Domain): QuestionBank {
+  const cached = cache.get(domain);
+  if (cached) return cached;
+
+  const raw = bankFiles[`./questions/${domain}.json`];
+  if (raw === undefined) {
+    throw new QuestionBankError(domain, `missing file src/data/questions/${domain}.json`);
+  }
+
+  const bank = validateQuestionBank(raw, domain);
+  cache.set(domain, bank);
+  return bank;
+}
+
+/* Narrows a bank to the kinds a page knows how to render (e.g. the coding page only takes "code") */
+export function loadQuestions<K extends QuestionKind>(domain: Domain, kinds: K[]): Extract<Question, { kind: K }>[] {
+  const { questions } = loadQuestionBank(domain);
+  const mismatch = questions.find(q => !(kinds as QuestionKind[]).includes(q.kind));
+  if (mismatch) {
+    throw new QuestionBankError(domain, `question ${mismatch.id} is "${mismatch.kind}", this page supports ${kinds.join(', ')}`);
+  }
+  return questions as Extract<Question, { kind: K }>[];
+}
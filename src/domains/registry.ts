@@ -0,0 +1,141 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+
+/*
+  Single source of truth for the recruitment domains. The 3D board, the
+  routes in App.tsx and the Domain type all come from this list, so adding a
+  domain is one entry here plus its question bank in src/data/questions/<id>.json.
+
+  For example, an AI/ML domain on the chipset would be:
+    {
+      id: 'ai-ml',
+      label: 'AI/ML',
+      description: 'Train and evaluate models on real chapter datasets.',
+      route: '/ai-ml',
+      board: { part: 'chipset', position: [-0.2, 0.14, 0.8], labelOffset: [0, 0.3, 0] },
+      page: lazy(() => import('../pages/aiMl')),
+    }
+*/
+
+export type Vec3 = [number, number, number];
+
+/* Board parts a domain can occupy; each kind is drawn by components/motherboard.tsx */
+export type BoardPart = 'pci-slots' | 'heatsink' | 'cpu' | 'ram' | 'pcie' | 'chipset';
+
+/* Spoken names for screen readers and the keyboard overlay */
+export const BOARD_PART_NAMES: Record<BoardPart, string> = {
+  'pci-slots': 'PCI slots',
+  heatsink: 'heatsink',
+  cpu: 'CPU',
+  ram: 'RAM slots',
+  pcie: 'PCIe slots',
+  chipset: 'chipset',
+};
+
+export interface DomainBoardPlacement {
+  part: BoardPart;
+  /* Board coordinates of the part, also the camera's zoom target */
+  position: Vec3;
+  /* Label position relative to the part */
+  labelOffset: Vec3;
+  labelSize?: number;
+  /* Nodes in src/assets/motherboard.glb that stand for the domain in the model board */
+  modelNodes?: string[];
+}
+
+export interface DomainDefinition<Id extends string = string> {
+  id: Id;
+  label: string;
+  /* One line read out when the domain gets keyboard focus on the board */
+  description: string;
+  route: string;
+  board: DomainBoardPlacement;
+  page: LazyExoticComponent<ComponentType>;
+}
+
+const defineDomains = <const Id extends string>(domains: DomainDefinition<Id>[]) => domains;
+
+export const DOMAIN_REGISTRY = defineDomains([
+  {
+    id: 'management',
+    label: 'Management',
+    description: 'Run events, lead teams and keep the chapter organised.',
+    route: '/management',
+    board: {
+      part: 'cpu',
+      position: [3.6, 0.35, 1.0],
+      labelOffset: [0, 0.55, 0],
+      labelSize: 0.35,
+      modelNodes: ['Group43'],
+    },
+    page: lazy(() => import('../pages/management')),
+  },
+  {
+    id: 'tech',
+    label: 'Tech',
+    description: "Build and maintain the chapter's websites and tools.",
+    route: '/tech',
+    board: {
+      part: 'heatsink',
+      position: [1.6, 0.28, -0.6],
+      labelOffset: [0, 0.62, 0],
+      labelSize: 0.3,
+      modelNodes: ['Group18'],
+    },
+    page: lazy(() => import('../pages/tech')),
+  },
+  {
+    id: 'research',
+    label: 'Research',
+    description: 'Explore open problems, read papers and write them up.',
+    route: '/research',
+    board: {
+      part: 'pcie',
+      position: [0, 0.12, 4.0],
+      labelOffset: [1.5, 0.24, 0],
+      labelSize: 0.4,
+      modelNodes: ['Group30'],
+    },
+    page: lazy(() => import('../pages/research')),
+  },
+  {
+    id: 'design',
+    label: 'Design',
+    description: 'Create posters, brand assets and interfaces for chapter events.',
+    route: '/design',
+    board: {
+      part: 'pci-slots',
+      position: [-4.5, 0, -1.0],
+      labelOffset: [0, 0.3, 0],
+      labelSize: 0.4,
+      modelNodes: ['Group71'],
+    },
+    page: lazy(() => import('../pages/design')),
+  },
+  {
+    id: 'competitive-coding',
+    label: 'Competitive Coding',
+    description: 'Solve algorithmic problems judged against hidden tests.',
+    route: '/competitive-coding',
+    board: {
+      part: 'ram',
+      position: [-3.0, 0.12, 1.0],
+      labelOffset: [0, 0.6, -1.0],
+      labelSize: 0.35,
+      modelNodes: ['Group55', 'Group66'],
+    },
+    page: lazy(() => import('../pages/competitiveCoding')),
+  },
+]);
+
+export type DomainId = (typeof DOMAIN_REGISTRY)[number]['id'];
+
+const byId = new Map<string, DomainDefinition<DomainId>>(DOMAIN_REGISTRY.map(domain => [domain.id, domain]));
+
+export function getDomain(id: DomainId): DomainDefinition<DomainId> {
+  return byId.get(id)!;
+}
+
+export const findDomainByRoute = (route: string) => DOMAIN_REGISTRY.find(domain => domain.route === route);
+
+/* For ids that arrive from outside the app: URLs, storage */
+export const isDomainId = (value: string | null | undefined): value is DomainId => value != null && byId.has(value);
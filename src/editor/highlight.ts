@@ -0,0 +1,129 @@
+import type { LanguageSpec } from './languages';
+
+export type TokenType = 'keyword' | 'builtin' | 'string' | 'comment' | 'number' | 'bracket' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+}
+
+export const OPENING_BRACKETS = '([{';
+export const CLOSING_BRACKETS = ')]}';
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /\d[\d_]*(\.\d+)?([eE][+-]?\d+)?/y;
+
+function readString(code: string, start: number, quote: string) {
+  // Python triple-quoted strings
+  const delimiter = code.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+  let i = start + delimiter.length;
+  while (i < code.length) {
+    if (code[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (code.startsWith(delimiter, i)) return i + delimiter.length;
+    // Single-quoted strings end at the line break (template literals and triple quotes don't)
+    if (code[i] === '\n' && delimiter.length === 1 && quote !== '`') return i;
+    i++;
+  }
+  return code.length;
+}
+
+/* Small single-pass tokenizer; good enough for colouring, not for parsing */
+export function tokenize(code: string, spec: LanguageSpec): Token[] {
+  const tokens: Token[] = [];
+  let plainStart = -1;
+
+  const flushPlain = (end: number) => {
+    if (plainStart >= 0) {
+      tokens.push({ type: 'plain', text: code.slice(plainStart, end), start: plainStart });
+      plainStart = -1;
+    }
+  };
+
+  const push = (type: TokenType, start: number, end: number) => {
+    flushPlain(start);
+    tokens.push({ type, text: code.slice(start, end), start });
+    return end;
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+
+    if (code.startsWith(spec.lineComment, i)) {
+      const end = code.indexOf('\n', i);
+      i = push('comment', i, end === -1 ? code.length : end);
+      continue;
+    }
+
+    if (spec.blockComment && code.startsWith(spec.blockComment[0], i)) {
+      const end = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      i = push('comment', i, end === -1 ? code.length : end + spec.blockComment[1].length);
+      continue;
+    }
+
+    if (char === '"' || char === "'" || (char === '`' && spec.id === 'javascript')) {
+      i = push('string', i, readString(code, i, char));
+      continue;
+    }
+
+    if (OPENING_BRACKETS.includes(char) || CLOSING_BRACKETS.includes(char)) {
+      i = push('bracket', i, i + 1);
+      continue;
+    }
+
+    NUMBER.lastIndex = i;
+    if (/\d/.test(char) && (i === 0 || !/[\w$]/.test(code[i - 1])) && NUMBER.test(code)) {
+      i = push('number', i, NUMBER.lastIndex);
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = i;
+    if (IDENTIFIER.test(code)) {
+      const end = IDENTIFIER.lastIndex;
+      const word = code.slice(i, end);
+      if (spec.keywords.has(word)) {
+        i = push('keyword', i, end);
+      } else if (spec.builtins.has(word)) {
+        i = push('builtin', i, end);
+      } else {
+        if (plainStart < 0) plainStart = i;
+        i = end;
+      }
+      continue;
+    }
+
+    if (plainStart < 0) plainStart = i;
+    i++;
+  }
+
+  flushPlain(code.length);
+  return tokens;
+}
+
+/* Index of the bracket matching the one at `index`, or -1. Only bracket tokens count, so brackets in strings and comments are ignored. */
+export function findMatchingBracket(tokens: Token[], index: number): number {
+  const brackets = tokens.filter(t => t.type === 'bracket');
+  const position = brackets.findIndex(t => t.start === index);
+  if (position === -1) return -1;
+
+  const char = brackets[position].text;
+  const opening = OPENING_BRACKETS.includes(char);
+  const pair = opening
+    ? CLOSING_BRACKETS[OPENING_BRACKETS.indexOf(char)]
+    : OPENING_BRACKETS[CLOSING_BRACKETS.indexOf(char)];
+  const step = opening ? 1 : -1;
+
+  let depth = 0;
+  for (let i = position + step; i >= 0 && i < brackets.length; i += step) {
+    if (brackets[i].text === char) depth++;
+    if (brackets[i].text === pair) {
+      if (depth === 0) return brackets[i].start;
+      depth--;
+    }
+  }
+  return -1;
+}
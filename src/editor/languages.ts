@@ -0,0 +1,69 @@
+export type Language = 'javascript' | 'python' | 'cpp' | 'java';
+
+export interface LanguageSpec {
+  id: Language;
+  label: string;
+  keywords: Set<string>;
+  /* Identifiers worth colouring differently: built-ins and common library names */
+  builtins: Set<string>;
+  lineComment: string;
+  blockComment?: [string, string];
+  /* Characters after which Enter adds one level of indentation */
+  indentAfter: string[];
+  tabSize: number;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+export const LANGUAGES: Record<Language, LanguageSpec> = {
+  javascript: {
+    id: 'javascript',
+    label: 'JavaScript',
+    keywords: words(`break case catch class const continue default delete do else export extends finally for
+      function if import in instanceof let new of return switch this throw try typeof var void while yield
+      async await true false null undefined`),
+    builtins: words('Math Number String Array Object Map Set JSON console parseInt parseFloat BigInt Infinity NaN'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    indentAfter: ['{', '[', '('],
+    tabSize: 2,
+  },
+  python: {
+    id: 'python',
+    label: 'Python',
+    keywords: words(`and as assert break class continue def del elif else except finally for from global if
+      import in is lambda nonlocal not or pass raise return try while with yield True False None`),
+    builtins: words('print input range len int str list dict set tuple map sorted min max sum abs enumerate zip sys'),
+    lineComment: '#',
+    indentAfter: [':', '{', '[', '('],
+    tabSize: 4,
+  },
+  cpp: {
+    id: 'cpp',
+    label: 'C++',
+    keywords: words(`auto bool break case char class const continue default delete do double else enum for
+      if include int long namespace new return short signed sizeof static struct switch template this
+      true false typedef unsigned using void while nullptr`),
+    builtins: words('std cin cout endl vector string map set pair sort min max deque queue stack unordered_map'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    indentAfter: ['{', '[', '('],
+    tabSize: 4,
+  },
+  java: {
+    id: 'java',
+    label: 'Java',
+    keywords: words(`abstract boolean break case catch char class continue default do double else extends
+      final finally float for if implements import int long new package private protected public return
+      short static switch this throw throws try void while true false null var`),
+    builtins: words('String System Scanner Math Arrays List ArrayList Map HashMap Integer Long BufferedReader InputStreamReader'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    indentAfter: ['{', '[', '('],
+    tabSize: 4,
+  },
+};
+
+export const LANGUAGE_OPTIONS = Object.values(LANGUAGES);
+
+export const DEFAULT_LANGUAGE: Language = 'javascript';
@@ -0,0 +1,167 @@
+import type { CodeQuestion, InputLine } from '../data/questionBank';
+import type { Language } from './languages';
+
+/*
+  Starter code generated from a problem's inputFormat: it reads every input
+  line into named variables and leaves the algorithm to the candidate.
+  Problems without an inputFormat fall back to reading the raw lines.
+*/
+
+const isArray = (line: InputLine) => line.type.endsWith('[]');
+const isInt = (line: InputLine) => line.type.startsWith('int');
+
+function javascriptReader(line: InputLine): string[] {
+  const parse = isInt(line) ? '.split(/\\s+/).map(Number)' : '.split(/\\s+/)';
+  if (line.repeat) {
+    return [
+      `const ${line.as} = [];`,
+      `for (let i = 0; i < ${line.repeat}; i++) {`,
+      `  const [${line.vars.join(', ')}] = next()${parse};`,
+      `  ${line.as}.push([${line.vars.join(', ')}]);`,
+      '}',
+    ];
+  }
+  if (isArray(line)) return [`const ${line.vars[0]} = next()${parse};`];
+  if (line.vars.length === 1) return [`const ${line.vars[0]} = ${isInt(line) ? 'Number(next())' : 'next()'};`];
+  return [`const [${line.vars.join(', ')}] = next()${parse};`];
+}
+
+function javascriptTemplate(format?: InputLine[]): string {
+  const body = format
+    ? ['const lines = input.trim().split(\'\\n\');', 'let cursor = 0;', 'const next = () => lines[cursor++].trim();', '', ...format.flatMap(javascriptReader)]
+    : ['const lines = input.trim().split(\'\\n\');'];
+  return [
+    'function solve(input) {',
+    ...body.map(l => (l ? `  ${l}` : l)),
+    '',
+    '  // Your implementation',
+    '  let answer = 0;',
+    '',
+    '  return answer;',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function pythonReader(line: InputLine): string {
+  const parse = isInt(line) ? 'list(map(int, input().split()))' : 'input().split()';
+  if (line.repeat) {
+    const row = isInt(line) ? 'tuple(map(int, input().split()))' : 'tuple(input().split())';
+    return `${line.as} = [${row} for _ in range(${line.repeat})]`;
+  }
+  if (isArray(line)) return `${line.vars[0]} = ${parse}`;
+  if (line.vars.length === 1) return `${line.vars[0]} = ${isInt(line) ? 'int(input())' : 'input().strip()'}`;
+  return `${line.vars.join(', ')} = ${isInt(line) ? 'map(int, input().split())' : 'input().split()'}`;
+}
+
+function pythonTemplate(format?: InputLine[]): string {
+  const body = format ? format.map(pythonReader) : ['lines = sys.stdin.read().splitlines()'];
+  return [
+    ...(format ? [] : ['import sys', '', '']),
+    'def main():',
+    ...body.map(l => `    ${l}`),
+    '',
+    '    # Your implementation',
+    '    answer = 0',
+    '',
+    '    print(answer)',
+    '',
+    '',
+    'main()',
+    '',
+  ].join('\n');
+}
+
+function cppReader(line: InputLine): string[] {
+  const scalar = isInt(line) ? 'long long' : 'string';
+  if (line.repeat) {
+    return [
+      `// each row: ${line.vars.join(' ')}`,
+      `vector<array<${scalar}, ${line.vars.length}>> ${line.as}(${line.repeat});`,
+      `for (auto &row : ${line.as})`,
+      '    for (auto &value : row) cin >> value;',
+    ];
+  }
+  if (isArray(line)) {
+    const name = line.vars[0];
+    return [`vector<${scalar}> ${name}(${line.length});`, `for (auto &value : ${name}) cin >> value;`];
+  }
+  return [`${scalar} ${line.vars.join(', ')};`, `cin >> ${line.vars.join(' >> ')};`];
+}
+
+function cppTemplate(format?: InputLine[]): string {
+  const body = format
+    ? format.flatMap(cppReader)
+    : ['vector<string> lines;', 'for (string line; getline(cin, line);) lines.push_back(line);'];
+  return [
+    '#include <bits/stdc++.h>',
+    'using namespace std;',
+    '',
+    'int main() {',
+    '    ios::sync_with_stdio(false);',
+    '    cin.tie(nullptr);',
+    '',
+    ...body.map(l => `    ${l}`),
+    '',
+    '    // Your implementation',
+    '    long long answer = 0;',
+    '',
+    '    cout << answer << "\\n";',
+    '    return 0;',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function javaReader(line: InputLine): string[] {
+  const scalar = isInt(line) ? 'long' : 'String';
+  const read = isInt(line) ? 'in.nextLong()' : 'in.next()';
+  if (line.repeat) {
+    return [
+      `// each row: ${line.vars.join(' ')}`,
+      `${scalar}[][] ${line.as} = new ${scalar}[(int) ${line.repeat}][${line.vars.length}];`,
+      `for (${scalar}[] row : ${line.as})`,
+      `    for (int j = 0; j < row.length; j++) row[j] = ${read};`,
+    ];
+  }
+  if (isArray(line)) {
+    const name = line.vars[0];
+    return [
+      `${scalar}[] ${name} = new ${scalar}[(int) ${line.length}];`,
+      `for (int i = 0; i < ${name}.length; i++) ${name}[i] = ${read};`,
+    ];
+  }
+  return line.vars.map(name => `${scalar} ${name} = ${read};`);
+}
+
+function javaTemplate(format?: InputLine[]): string {
+  const body = format
+    ? ['Scanner in = new Scanner(System.in);', '', ...format.flatMap(javaReader)]
+    : ['Scanner in = new Scanner(System.in);', 'List<String> lines = new ArrayList<>();', 'while (in.hasNextLine()) lines.add(in.nextLine());'];
+  return [
+    'import java.util.*;',
+    '',
+    'public class Main {',
+    '    public static void main(String[] args) {',
+    ...body.map(l => (l ? `        ${l}` : l)),
+    '',
+    '        // Your implementation',
+    '        long answer = 0;',
+    '',
+    '        System.out.println(answer);',
+    '    }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+const GENERATORS: Record<Language, (format?: InputLine[]) => string> = {
+  javascript: javascriptTemplate,
+  python: pythonTemplate,
+  cpp: cppTemplate,
+  java: javaTemplate,
+};
+
+export function starterTemplate(problem: CodeQuestion, language: Language): string {
+  return GENERATORS[language](problem.inputFormat);
+}
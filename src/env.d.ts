@@ -0,0 +1,16 @@
+interface ImportMetaEnv {
+  /* Base URL of the submissions API; unset means the local mock store is used */
+  readonly VITE_SUBMISSION_API_URL?: string;
+  /* Folder holding pyodide.mjs and its wasm files; defaults to the jsDelivr CDN */
+  readonly VITE_PYODIDE_URL?: string;
+  /* 'true' lets /admin review the local mock store without a backend; never enable it in production */
+  readonly VITE_LOCAL_REVIEW?: string;
+  /* Club pages linked from the info cards on the board; a card shows no link when its URL is unset */
+  readonly VITE_ACM_EVENTS_URL?: string;
+  readonly VITE_ACM_CONTACT_URL?: string;
+  readonly VITE_ACM_FAQ_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
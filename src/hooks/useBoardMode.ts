@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+
+/*
+  Picks between the 3D WebGL board and the flat SVG board on the landing page.
+  The flat board is used when WebGL is missing or the visitor prefers reduced
+  motion; a toggle on the page overrides the motion preference and is
+  remembered. Without WebGL the 3D board is never offered.
+*/
+
+export type BoardMode = '3d' | '2d';
+
+export type FlatBoardReason = 'no-webgl' | 'reduced-motion' | 'user';
+
+const STORAGE_KEY = 'acm-motherboard:board-mode';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+let webGLSupport: boolean | undefined;
+
+export function supportsWebGL(): boolean {
+  if (webGLSupport === undefined) {
+    try {
+      const canvas = document.createElement('canvas');
+      webGLSupport = Boolean(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+    } catch {
+      webGLSupport = false;
+    }
+  }
+  return webGLSupport;
+}
+
+function loadPreference(): BoardMode | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === '3d' || stored === '2d' ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePreference(mode: BoardMode) {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Storage blocked: the choice lasts until the page reloads
+  }
+}
+
+export function useBoardMode() {
+  const [webGL] = useState(supportsWebGL);
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+  const [preference, setPreference] = useState(loadPreference);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = (e: MediaQueryListEvent) => setReducedMotion(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const reason: FlatBoardReason | null = !webGL
+    ? 'no-webgl'
+    : preference === '2d'
+      ? 'user'
+      : preference === null && reducedMotion
+        ? 'reduced-motion'
+        : null;
+
+  const choose = (mode: BoardMode) => {
+    savePreference(mode);
+    setPreference(mode);
+  };
+
+  return {
+    mode: (reason ? '2d' : '3d') as BoardMode,
+    reason,
+    /* False when the 3D board can't run here at all */
+    canUse3D: webGL,
+    choose,
+  };
+}
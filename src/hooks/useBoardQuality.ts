@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+/*
+  Picks how much the 3D board draws. The starting tier comes from a one-off
+  look at the GPU, memory and CPU; while the board animates, sustained frame
+  rates under the render budget step it down a tier. A step-down keeps the
+  starting tier's antialiasing, which can only change by rebuilding the
+  canvas, and that would cut off a camera flight. A choice in the quality
+  overlay overrides both and is remembered; ?detail= in the URL forces a tier
+  for that visit only.
+*/
+
+export type QualityTier = 'low' | 'medium' | 'high';
+
+export type QualityOverride = QualityTier | 'auto';
+
+export interface QualitySettings {
+  /* Load motherboard.glb; otherwise the primitive board is drawn */
+  model: boolean;
+  shadows: boolean;
+  antialias: boolean;
+  dpr: [min: number, max: number];
+  /* Primitive board detail */
+  vias: boolean;
+  gridLines: boolean;
+  icPins: boolean;
+  smdScatter: boolean;
+  /* Post-processing; with all three off the board renders straight to the screen */
+  bloom: boolean;
+  ambientOcclusion: boolean;
+  /* Outline round the hovered domain instead of the small gold marker */
+  outline: boolean;
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high'];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: {
+    model: false,
+    shadows: false,
+    antialias: false,
+    dpr: [1, 1],
+    vias: false,
+    gridLines: false,
+    icPins: false,
+    smdScatter: false,
+    bloom: false,
+    ambientOcclusion: false,
+    outline: false,
+  },
+  medium: {
+    model: false,
+    shadows: false,
+    antialias: true,
+    dpr: [1, 1.5],
+    vias: true,
+    gridLines: true,
+    icPins: true,
+    smdScatter: true,
+    bloom: true,
+    ambientOcclusion: false,
+    outline: true,
+  },
+  high: {
+    model: true,
+    shadows: true,
+    antialias: true,
+    dpr: [1, 2],
+    vias: true,
+    gridLines: true,
+    icPins: true,
+    smdScatter: true,
+    bloom: true,
+    ambientOcclusion: true,
+    outline: true,
+  },
+};
+
+const STORAGE_KEY = 'acm-motherboard:quality';
+
+/* Below this width the board is framed for a phone: camera further back, larger labels */
+const COMPACT_WIDTH = 768;
+
+/* Software renderers and old integrated or mobile GPUs */
+const WEAK_GPU = /swiftshader|llvmpipe|software|mali-[4t]|adreno \(tm\) [2-4]\d\d|powervr|intel.*hd graphics [2-5]\d{2,3}\b/i;
+
+interface NavigatorWithMemory extends Navigator {
+  /* GB, rounded; Chromium only */
+  deviceMemory?: number;
+}
+
+let detectedTier: QualityTier | undefined;
+
+/* Best guess before the board has drawn a frame; cached for the page's lifetime */
+export function detectQualityTier(): QualityTier {
+  if (detectedTier !== undefined) return detectedTier;
+
+  let gpu = '';
+  let maxTextureSize = 0;
+  try {
+    const gl = document.createElement('canvas').getContext('webgl');
+    if (gl) {
+      const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+      gpu = debugInfo ? String(gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)) : '';
+      maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+  } catch {
+    // No probe: fall back to memory and cores
+  }
+
+  const { deviceMemory, hardwareConcurrency } = navigator as NavigatorWithMemory;
+  const compact = window.innerWidth < COMPACT_WIDTH;
+
+  if (WEAK_GPU.test(gpu) || (maxTextureSize > 0 && maxTextureSize < 4096)
+    || (deviceMemory !== undefined && deviceMemory <= 2) || hardwareConcurrency <= 2) {
+    detectedTier = 'low';
+  } else if (compact || (deviceMemory !== undefined && deviceMemory <= 4) || hardwareConcurrency <= 4) {
+    detectedTier = 'medium';
+  } else {
+    detectedTier = 'high';
+  }
+  return detectedTier;
+}
+
+const isTier = (value: string | null): value is QualityTier => QUALITY_TIERS.includes(value as QualityTier);
+
+function loadOverride(): QualityOverride {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isTier(stored) ? stored : 'auto';
+  } catch {
+    return 'auto';
+  }
+}
+
+function saveOverride(choice: QualityOverride) {
+  try {
+    if (choice === 'auto') localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, choice);
+  } catch {
+    // Storage blocked: the choice lasts until the page reloads
+  }
+}
+
+/* urlTier is ?detail= from the URL; it wins over the saved choice but isn't stored */
+export function useBoardQuality(urlTier: string | null = null) {
+  const [override, setOverride] = useState(loadOverride);
+  const [autoTier, setAutoTier] = useState(detectQualityTier);
+  const [compact, setCompact] = useState(() => window.innerWidth < COMPACT_WIDTH);
+
+  useEffect(() => {
+    const handleResize = () => setCompact(window.innerWidth < COMPACT_WIDTH);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const forced = isTier(urlTier);
+  const tier: QualityTier = forced ? urlTier : override === 'auto' ? autoTier : override;
+  const stepped = !forced && override === 'auto';
+  const settings = useMemo(
+    () => (stepped ? { ...QUALITY_SETTINGS[tier], antialias: QUALITY_SETTINGS[detectQualityTier()].antialias } : QUALITY_SETTINGS[tier]),
+    [stepped, tier],
+  );
+
+  const choose = (choice: QualityOverride) => {
+    saveOverride(choice);
+    setOverride(choice);
+  };
+
+  /* Called when the board keeps missing the frame budget; only the automatic tier reacts */
+  const reportSlowFrames = useCallback(() => {
+    setAutoTier(current => QUALITY_TIERS[Math.max(0, QUALITY_TIERS.indexOf(current) - 1)]);
+  }, []);
+
+  return {
+    tier,
+    settings,
+    /* The device's own tier, after any step-downs */
+    autoTier,
+    override,
+    /* Set by ?detail=, so the overlay has no say */
+    forced,
+    compact,
+    choose,
+    reportSlowFrames,
+  };
+}
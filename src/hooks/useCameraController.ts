@@ -0,0 +1,92 @@
+import { useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { easeInOutCubic, type Easing } from '../animation/easing';
+
+/*
+  Time-based camera tweens for the 3D board. Progress comes from the wall
+  clock rather than frame count, so a tween takes the same time at any frame
+  rate, and each running frame requests the next one so the demand frameloop
+  can't stall mid-flight. Starting a new flight cancels the current one and
+  its onComplete never fires.
+*/
+
+export interface CameraPose {
+  position: THREE.Vector3Tuple;
+  /* Point the camera looks at */
+  target: THREE.Vector3Tuple;
+}
+
+export interface FlightOptions {
+  duration: number;
+  easing?: Easing;
+  onComplete?: () => void;
+}
+
+interface Flight {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  startedAt: number;
+  duration: number;
+  easing: Easing;
+  onComplete?: () => void;
+}
+
+/* Must be called inside the Canvas; the camera starts out looking at initialTarget */
+export function useCameraController(initialTarget: THREE.Vector3Tuple = [0, 0, 0]) {
+  const { camera, invalidate } = useThree();
+  const [x, y, z] = initialTarget;
+  const target = useRef(new THREE.Vector3(x, y, z));
+  const flight = useRef<Flight | null>(null);
+
+  useFrame(() => {
+    const current = flight.current;
+    if (!current) return;
+
+    const t = current.duration > 0 ? Math.min(1, (performance.now() - current.startedAt) / current.duration) : 1;
+    const k = current.easing(t);
+    camera.position.lerpVectors(current.fromPosition, current.toPosition, k);
+    target.current.lerpVectors(current.fromTarget, current.toTarget, k);
+    camera.lookAt(target.current);
+    camera.updateMatrixWorld();
+
+    if (t < 1) {
+      invalidate();
+      return;
+    }
+    flight.current = null;
+    current.onComplete?.();
+  });
+
+  return useMemo(() => ({
+    flyTo(pose: CameraPose, { duration, easing = easeInOutCubic, onComplete }: FlightOptions) {
+      flight.current = {
+        fromPosition: camera.position.clone(),
+        fromTarget: target.current.clone(),
+        toPosition: new THREE.Vector3(...pose.position),
+        toTarget: new THREE.Vector3(...pose.target),
+        startedAt: performance.now(),
+        duration,
+        easing,
+        onComplete,
+      };
+      invalidate();
+    },
+
+    /* Places the camera immediately, cancelling any flight */
+    jumpTo(pose: CameraPose) {
+      flight.current = null;
+      camera.position.set(...pose.position);
+      target.current.set(...pose.target);
+      camera.lookAt(target.current);
+      camera.updateMatrixWorld();
+      invalidate();
+    },
+
+    cancel() {
+      flight.current = null;
+    },
+  }), [camera, invalidate]);
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Domain } from '../data/questionBank';
+import { loadDraft, saveDraft, type DomainDraft } from '../services/draftStore';
+
+const AUTOSAVE_DELAY = 600;
+
+/*
+  Domain page state (answers, submitted questions, current question) backed by
+  the draft store. Changes are written after a short pause in typing and
+  flushed immediately when the page unmounts or the tab is hidden.
+*/
+export function useDraft<A = string>(domain: Domain, delay = AUTOSAVE_DELAY) {
+  const [draft, setDraft] = useState<DomainDraft<A>>(() => loadDraft<A>(domain));
+  const [savedAt, setSavedAt] = useState<number | null>(draft.savedAt);
+  const latest = useRef(draft);
+  const dirty = useRef(false);
+
+  const flush = useCallback(() => {
+    if (!dirty.current) return;
+    dirty.current = false;
+    const timestamp = saveDraft(domain, latest.current);
+    if (timestamp !== null) setSavedAt(timestamp);
+  }, [domain]);
+
+  const update = useCallback((change: (prev: DomainDraft<A>) => DomainDraft<A>) => {
+    setDraft(prev => {
+      const next = change(prev);
+      latest.current = next;
+      dirty.current = true;
+      return next;
+    });
+  }, []);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!dirty.current) return;
+    const timer = window.setTimeout(flush, delay);
+    return () => window.clearTimeout(timer);
+  }, [draft, delay, flush]);
+
+  // Don't lose the last keystrokes on navigation or tab close
+  useEffect(() => {
+    const handleHide = () => flush();
+    window.addEventListener('pagehide', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', handleHide);
+      flush();
+    };
+  }, [flush]);
+
+  const setAnswer = useCallback((questionId: number, answer: A) => {
+    update(prev => ({ ...prev, answers: { ...prev.answers, [questionId]: answer } }));
+  }, [update]);
+
+  const markSubmitted = useCallback((questionId: number) => {
+    update(prev => prev.submitted.includes(questionId)
+      ? prev
+      : { ...prev, submitted: [...prev.submitted, questionId] });
+  }, [update]);
+
+  /* Reopens a question whose submission the backend refused */
+  const unmarkSubmitted = useCallback((questionId: number) => {
+    update(prev => prev.submitted.includes(questionId)
+      ? { ...prev, submitted: prev.submitted.filter(id => id !== questionId) }
+      : prev);
+  }, [update]);
+
+  const setCurrentIndex = useCallback((index: number | ((prev: number) => number)) => {
+    update(prev => ({
+      ...prev,
+      currentIndex: typeof index === 'function' ? index(prev.currentIndex) : index,
+    }));
+  }, [update]);
+
+  const submitted = useMemo(() => new Set(draft.submitted), [draft.submitted]);
+
+  return {
+    answers: draft.answers,
+    submitted,
+    currentIndex: draft.currentIndex,
+    savedAt,
+    setAnswer,
+    markSubmitted,
+    unmarkSubmitted,
+    setCurrentIndex,
+  };
+}
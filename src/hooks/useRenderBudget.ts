@@ -0,0 +1,49 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+
+/*
+  Render budget for the 3D board. Low-end phones at the recruitment drive are
+  the target, so the board should stay inside these numbers. Open the board
+  with ?stats in the URL to see the live figures against them.
+*/
+export const RENDER_BUDGET = {
+  drawCalls: 200,
+  fps: 30,
+};
+
+export interface RenderStats {
+  drawCalls: number;
+  triangles: number;
+  /* Over frames that actually rendered; 0 while the scene is idle */
+  fps: number;
+  overBudget: boolean;
+}
+
+/* The canvas renders on demand, so longer gaps between frames are idle time rather than slow frames */
+const IDLE_GAP_SECONDS = 0.25;
+
+/* Must be called inside the Canvas; reports a sample every intervalMs of rendering */
+export function useRenderBudget(onSample: (stats: RenderStats) => void, intervalMs = 500) {
+  const sample = useRef({ frames: 0, frameTime: 0, elapsed: 0 });
+
+  useFrame(({ gl }, delta) => {
+    const current = sample.current;
+    current.elapsed += delta * 1000;
+    if (delta < IDLE_GAP_SECONDS) {
+      current.frames += 1;
+      current.frameTime += delta;
+    }
+    if (current.elapsed < intervalMs) return;
+
+    // renderer.info is reset at the start of each render, so this is the previous frame
+    const { calls, triangles } = gl.info.render;
+    const fps = current.frameTime > 0 ? Math.round(current.frames / current.frameTime) : 0;
+    onSample({
+      drawCalls: calls,
+      triangles,
+      fps,
+      overBudget: calls > RENDER_BUDGET.drawCalls || (fps > 0 && fps < RENDER_BUDGET.fps),
+    });
+    sample.current = { frames: 0, frameTime: 0, elapsed: 0 };
+  });
+}
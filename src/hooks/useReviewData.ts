@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Domain } from '../data/questionBank';
+import {
+  getSubmissionAdapter,
+  type AnswerReview,
+  type CandidateDecision,
+  type CandidateRef,
+  type CandidateStatus,
+  type ReviewData,
+  type SubmissionPayload,
+} from '../services/submission';
+
+export interface CandidateSummary {
+  candidate: CandidateRef;
+  status: CandidateStatus;
+  /* Latest submission per question, oldest first */
+  submissions: SubmissionPayload[];
+  domains: Domain[];
+  lastSubmittedAt: string;
+  reviewedCount: number;
+  /* Reviewer scores where given, otherwise the automatic score */
+  score: number;
+}
+
+const EMPTY: ReviewData = { submissions: [], reviews: [], decisions: [] };
+
+/* Later submissions of the same question (e.g. a re-take on another device) replace earlier ones */
+function latestPerQuestion(submissions: SubmissionPayload[]) {
+  const latest = new Map<string, SubmissionPayload>();
+  for (const s of [...submissions].sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))) {
+    latest.set(`${s.domain}:${s.questionId}`, s);
+  }
+  return [...latest.values()];
+}
+
+function summarize({ submissions, reviews, decisions }: ReviewData): CandidateSummary[] {
+  const reviewById = new Map(reviews.map(r => [r.submissionId, r]));
+  const statusById = new Map(decisions.map(d => [d.candidateId, d.status]));
+  const byCandidate = new Map<string, SubmissionPayload[]>();
+  for (const s of submissions) {
+    byCandidate.set(s.candidate.id, [...(byCandidate.get(s.candidate.id) ?? []), s]);
+  }
+
+  return [...byCandidate.values()].map(all => {
+    const latest = latestPerQuestion(all);
+    const newest = latest[latest.length - 1];
+    return {
+      candidate: newest.candidate,
+      status: statusById.get(newest.candidate.id) ?? 'pending',
+      submissions: latest,
+      domains: [...new Set(latest.map(s => s.domain))],
+      lastSubmittedAt: newest.submittedAt,
+      reviewedCount: latest.filter(s => reviewById.get(s.id)?.score != null).length,
+      score: latest.reduce((sum, s) => sum + (reviewById.get(s.id)?.score ?? s.autoScore?.score ?? 0), 0),
+    };
+  }).sort((a, b) => b.lastSubmittedAt.localeCompare(a.lastSubmittedAt));
+}
+
+/* Loads everything the review dashboard shows from the active submission adapter */
+export function useReviewData() {
+  const [data, setData] = useState<ReviewData>(EMPTY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setData(await getSubmissionAdapter().loadReviewData());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const saveReview = useCallback(async (review: AnswerReview) => {
+    const saved = await getSubmissionAdapter().saveReview(review);
+    setData(prev => ({
+      ...prev,
+      reviews: [...prev.reviews.filter(r => r.submissionId !== saved.submissionId), saved],
+    }));
+    return saved;
+  }, []);
+
+  const setCandidateStatus = useCallback(async (candidateId: string, status: CandidateStatus) => {
+    const decision: CandidateDecision = { candidateId, status, decidedAt: new Date().toISOString() };
+    const saved = await getSubmissionAdapter().setCandidateStatus(decision);
+    setData(prev => ({
+      ...prev,
+      decisions: [...prev.decisions.filter(d => d.candidateId !== saved.candidateId), saved],
+    }));
+  }, []);
+
+  const candidates = useMemo(() => summarize(data), [data]);
+  const reviews = useMemo(() => new Map(data.reviews.map(r => [r.submissionId, r])), [data.reviews]);
+
+  return { candidates, reviews, loading, error, refresh, saveReview, setCandidateStatus };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { Domain } from '../data/questionBank';
+import { useCandidate } from '../context/candidate';
+import { SubmissionError, pendingCount, submitAnswer, subscribeToQueue, takeRejected, type AutoScore } from '../services/submission';
+import { createId } from '../utils/id';
+
+interface SubmitOptions {
+  explanation?: string;
+  language?: string;
+  autoScore?: AutoScore;
+  draftSavedAt?: number | null;
+}
+
+/*
+  Builds typed payloads for a domain page, keyed to the registered candidate, and hands them to the submission service.
+  onRefused is called with the question of every answer the backend refuses, straight away or later from the retry
+  queue, so the page can reopen it for the candidate to fix and send again.
+*/
+export function useSubmitAnswer(domain: Domain, onRefused?: (questionId: number) => void) {
+  const { candidate } = useCandidate();
+  const pending = useSyncExternalStore(subscribeToQueue, pendingCount);
+  // Last answer the backend refused outright; retrying won't help, so the candidate needs to know
+  const [rejected, setRejected] = useState<string | null>(null);
+
+  // Queued answers can be refused on a later retry, possibly in an earlier visit
+  useEffect(() => {
+    if (!candidate) return;
+    const claimRefused = () => {
+      const refused = takeRejected(domain, candidate.id);
+      if (refused.length === 0) return;
+      refused.forEach(({ questionId }) => onRefused?.(questionId));
+      setRejected(refused[refused.length - 1].error);
+    };
+    claimRefused();
+    return subscribeToQueue(claimRefused);
+  }, [candidate, domain, onRefused]);
+
+  const submit = useCallback((questionId: number, answer: string, options: SubmitOptions = {}) => {
+    if (!candidate) {
+      // Domain routes sit behind RequireCandidate, so this shouldn't happen.
+      // The answer is still kept in the draft.
+      console.warn(`Not submitting ${domain} Q${questionId}: no registered candidate`);
+      return Promise.resolve(null);
+    }
+    return submitAnswer({
+      id: createId(),
+      candidate: {
+        id: candidate.id,
+        name: candidate.name,
+        email: candidate.email,
+        rollNumber: candidate.rollNumber,
+      },
+      domain,
+      questionId,
+      answer,
+      explanation: options.explanation,
+      language: options.language,
+      autoScore: options.autoScore,
+      submittedAt: new Date().toISOString(),
+      draftSavedAt: options.draftSavedAt ? new Date(options.draftSavedAt).toISOString() : null,
+    }).then(
+      (status) => {
+        setRejected(null);
+        return status;
+      },
+      (error: unknown) => {
+        if (!(error instanceof SubmissionError)) throw error;
+        console.error(`Submission for ${domain} Q${questionId} was rejected`, error);
+        onRefused?.(questionId);
+        setRejected(error.message);
+        return null;
+      },
+    );
+  }, [candidate, domain, onRefused]);
+
+  return { submit, pending, rejected };
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DOMAINS, domainLabel, loadQuestionBank, type Domain, type Question } from '../data/questionBank';
+import { isDomainId } from '../domains/registry';
+import { useReviewData, type CandidateSummary } from '../hooks/useReviewData';
+import { signOutAdmin } from '../services/adminSession';
+import { getSubmissionAdapter, type AnswerReview, type CandidateStatus, type SubmissionPayload } from '../services/submission';
+import './admin.css';
+
+const STATUSES: CandidateStatus[] = ['pending', 'shortlisted', 'rejected'];
+
+/* Domain ids come from the server and may belong to a retired domain or a bad row; those show as-is */
+const labelOf = (domain: string) => (isDomainId(domain) ? domainLabel(domain) : domain);
+
+const findQuestion = (domain: string, id: number): Question | undefined =>
+  isDomainId(domain) ? loadQuestionBank(domain).questions.find(q => q.id === id) : undefined;
+
+const questionTitle = (question: Question) => (question.kind === 'code' ? question.title : question.question);
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+interface AnswerCardProps {
+  submission: SubmissionPayload;
+  review?: AnswerReview;
+  onSave: (review: AnswerReview) => Promise<AnswerReview>;
+}
+
+/* One answer beside its question, with the reviewer's score and comment */
+function AnswerCard({ submission, review, onSave }: AnswerCardProps) {
+  const question = findQuestion(submission.domain, submission.questionId);
+  const maxScore = question?.points ?? submission.autoScore?.maxScore;
+  const [score, setScore] = useState(review?.score?.toString() ?? '');
+  const [comment, setComment] = useState(review?.comment ?? '');
+  const [state, setState] = useState<'idle' | 'saving' | 'saved' | 'error'>(review ? 'saved' : 'idle');
+
+  const parsedScore = score.trim() === '' ? null : Number(score);
+  const scoreInvalid = parsedScore !== null
+    && (!Number.isFinite(parsedScore) || parsedScore < 0 || (maxScore !== undefined && parsedScore > maxScore));
+
+  const handleSave = async () => {
+    setState('saving');
+    try {
+      await onSave({
+        submissionId: submission.id,
+        score: parsedScore,
+        comment: comment.trim(),
+        reviewedAt: new Date().toISOString(),
+      });
+      setState('saved');
+    } catch {
+      setState('error');
+    }
+  };
+
+  const markDirty = () => setState(prev => (prev === 'saving' ? prev : 'idle'));
+
+  return (
+    <article className={`answer-card ${review?.score != null ? 'reviewed' : ''}`}>
+      <header className="answer-card-header">
+        <span className="answer-domain">{labelOf(submission.domain)}</span>
+        <span className="answer-id">Q{submission.questionId}</span>
+        {question && <span className="answer-points">{question.points} pts</span>}
+        <span className="answer-time">{formatTime(submission.submittedAt)}</span>
+      </header>
+
+      <div className="answer-question">
+        {question ? questionTitle(question) : 'Question no longer in the bank'}
+        {question?.kind === 'code' && (
+          <details>
+            <summary>Problem statement</summary>
+            <pre>{question.description}</pre>
+          </details>
+        )}
+      </div>
+
+      <div className="answer-body">
+        {submission.language && <span className="answer-language">{submission.language}</span>}
+        <pre className={question?.kind === 'code' ? 'answer-code' : 'answer-text'}>{submission.answer}</pre>
+        {submission.explanation && (
+          <>
+            <h4>Explanation</h4>
+            <pre className="answer-text">{submission.explanation}</pre>
+          </>
+        )}
+        {submission.autoScore && (
+          <div className="answer-autoscore">
+            Auto score (advisory): {submission.autoScore.score}/{submission.autoScore.maxScore} · {submission.autoScore.summary}
+          </div>
+        )}
+      </div>
+
+      <div className="review-form">
+        <label className="review-score">
+          <span>Score</span>
+          <input
+            type="number"
+            min={0}
+            max={maxScore}
+            value={score}
+            onChange={(e) => {
+              setScore(e.target.value);
+              markDirty();
+            }}
+            aria-invalid={scoreInvalid}
+          />
+          {maxScore !== undefined && <span>/ {maxScore}</span>}
+        </label>
+        <textarea
+          className="review-comment"
+          placeholder="Reviewer comment..."
+          value={comment}
+          onChange={(e) => {
+            setComment(e.target.value);
+            markDirty();
+          }}
+          rows={2}
+        />
+        <div className="review-actions">
+          <button onClick={() => void handleSave()} disabled={scoreInvalid || state === 'saving' || state === 'saved'}>
+            {state === 'saving' ? 'Saving...' : state === 'saved' ? '✓ Saved' : 'Save Review'}
+          </button>
+          {state === 'error' && <span className="review-error">Could not save, try again</span>}
+          {scoreInvalid && <span className="review-error">Score must be between 0 and {maxScore}</span>}
+        </div>
+      </div>
+    </article>
+  );
+}
+
+function CandidateDetail({ summary, domain, reviews, onSave, onStatus }: {
+  summary: CandidateSummary;
+  domain: Domain | 'all';
+  reviews: Map<string, AnswerReview>;
+  onSave: (review: AnswerReview) => Promise<AnswerReview>;
+  onStatus: (status: CandidateStatus) => void;
+}) {
+  const { candidate } = summary;
+  const submissions = summary.submissions.filter(s => domain === 'all' || s.domain === domain);
+
+  return (
+    <section className="candidate-detail">
+      <header className="candidate-detail-header">
+        <div>
+          <h2>{candidate.name ?? 'Unnamed candidate'}</h2>
+          <p>{[candidate.rollNumber, candidate.email].filter(Boolean).join(' · ')}</p>
+        </div>
+        <div className="status-buttons" role="group" aria-label="Candidate status">
+          {STATUSES.map(status => (
+            <button
+              key={status}
+              className={`status-btn ${status} ${summary.status === status ? 'active' : ''}`}
+              onClick={() => onStatus(status)}
+              aria-pressed={summary.status === status}
+            >
+              {status === 'pending' ? 'Pending' : status === 'shortlisted' ? 'Shortlist' : 'Reject'}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {submissions.length === 0 && <p className="admin-empty">No answers in this domain.</p>}
+      {submissions.map(submission => (
+        <AnswerCard
+          key={`${submission.id}-${reviews.get(submission.id)?.reviewedAt ?? ''}`}
+          submission={submission}
+          review={reviews.get(submission.id)}
+          onSave={onSave}
+        />
+      ))}
+    </section>
+  );
+}
+
+export default function AdminPage() {
+  const navigate = useNavigate();
+  const { candidates, reviews, loading, error, refresh, saveReview, setCandidateStatus } = useReviewData();
+  const [domain, setDomain] = useState<Domain | 'all'>('all');
+  const [status, setStatus] = useState<CandidateStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+
+  const query = search.trim().toLowerCase();
+  const visible = candidates.filter(c =>
+    (domain === 'all' || c.domains.includes(domain))
+    && (status === 'all' || c.status === status)
+    && (!query || [c.candidate.name, c.candidate.email, c.candidate.rollNumber]
+      .some(field => field?.toLowerCase().includes(query))));
+  const selected = visible.find(c => c.candidate.id === selectedId) ?? visible[0];
+
+  const handleStatus = (candidateId: string, next: CandidateStatus) => {
+    setStatusError(null);
+    setCandidateStatus(candidateId, next).catch((err: unknown) => {
+      setStatusError(err instanceof Error ? err.message : String(err));
+    });
+  };
+
+  const handleSignOut = () => {
+    signOutAdmin();
+    navigate('/');
+  };
+
+  return (
+    <div className="admin-container">
+      <header className="admin-header">
+        <div>
+          <h1>Review Console</h1>
+          <p>{candidates.length} candidates · {getSubmissionAdapter().name} store</p>
+        </div>
+        <div className="admin-header-actions">
+          <button onClick={() => void refresh()} disabled={loading}>
+            {loading ? 'Loading...' : '↻ Refresh'}
+          </button>
+          <button className="secondary" onClick={handleSignOut}>Sign Out</button>
+        </div>
+      </header>
+
+      <div className="admin-filters">
+        <label>
+          <span>Domain</span>
+          <select value={domain} onChange={(e) => setDomain(e.target.value as Domain | 'all')}>
+            <option value="all">All domains</option>
+            {DOMAINS.map(d => (
+              <option key={d} value={d}>{domainLabel(d)}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Status</span>
+          <select value={status} onChange={(e) => setStatus(e.target.value as CandidateStatus | 'all')}>
+            <option value="all">Any status</option>
+            {STATUSES.map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <label className="admin-search">
+          <span>Search</span>
+          <input
+            type="search"
+            placeholder="Name, email or roll number"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {error && <div className="admin-error" role="alert">Could not load submissions: {error}</div>}
+      {statusError && <div className="admin-error" role="alert">Could not update status: {statusError}</div>}
+
+      <div className="admin-layout">
+        <aside className="candidate-list">
+          {visible.length === 0 && !loading && <p className="admin-empty">No candidates match.</p>}
+          {visible.map(c => (
+            <button
+              key={c.candidate.id}
+              className={`candidate-row ${c === selected ? 'selected' : ''}`}
+              onClick={() => setSelectedId(c.candidate.id)}
+            >
+              <span className="candidate-name">{c.candidate.name ?? c.candidate.id}</span>
+              <span className={`candidate-status ${c.status}`}>{c.status}</span>
+              <span className="candidate-meta">
+                {c.submissions.length} answers · {c.reviewedCount} reviewed · {c.score} pts
+              </span>
+              <span className="candidate-domains">{c.domains.map(labelOf).join(', ')}</span>
+            </button>
+          ))}
+        </aside>
+
+        {selected ? (
+          <CandidateDetail
+            summary={selected}
+            domain={domain}
+            reviews={reviews}
+            onSave={saveReview}
+            onStatus={(next) => handleStatus(selected.candidate.id, next)}
+          />
+        ) : (
+          <section className="candidate-detail">
+            <p className="admin-empty">{loading ? 'Loading submissions...' : 'Select a candidate to review.'}</p>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
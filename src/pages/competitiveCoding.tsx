@@ -1,100 +1,177 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { loadQuestions } from '../data/questionBank';
+import CodeEditor from '../components/CodeEditor';
+import SavedIndicator from '../components/SavedIndicator';
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_OPTIONS, type Language } from '../editor/languages';
+import { starterTemplate } from '../editor/templates';
+import { useDraft } from '../hooks/useDraft';
+import { useSubmitAnswer } from '../hooks/useSubmitAnswer';
+import {
+  diffLines,
+  isRunnable,
+  judgeSolution,
+  preloadPython,
+  runSample,
+  RuntimeUnavailableError,
+  VERDICT_LABELS,
+  type JudgeReport,
+  type RunResult,
+} from '../runner';
 import './competitiveCoding.css';
 
-interface Problem {
-  id: number;
-  title: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  timeLimit: string;
-  memoryLimit: string;
-  description: string;
-  sampleInput: string;
-  sampleOutput: string;
+const problems = loadQuestions('competitive-coding', ['code']);
+
+/* Each solution is code plus a written explanation of the approach */
+interface CodingAnswer {
+  code: string;
+  explanation: string;
+  language?: Language;
+  /* Hidden test results recorded when the solution was submitted */
+  judge?: JudgeReport;
 }
 
+const BLOCKS_PER_PROBLEM = 3;
+
 const CompetitiveCoding: React.FC = () => {
   const navigate = useNavigate();
-  const [currentProblem, setCurrentProblem] = useState(0);
-  const [solutions, setSolutions] = useState<string[]>(['', '', '', '', '']);
-  const [submittedProblems, setSubmittedProblems] = useState<boolean[]>([false, false, false, false, false]);
+  const { answers, submitted, currentIndex, savedAt, setAnswer, markSubmitted, unmarkSubmitted, setCurrentIndex: setCurrentProblem } = useDraft<CodingAnswer>('competitive-coding');
+  const { submit, pending, rejected } = useSubmitAnswer('competitive-coding', unmarkSubmitted);
+  const currentProblem = Math.min(currentIndex, problems.length - 1);
+  const problem = problems[currentProblem];
+  const languages = problems.map(p => answers[p.id]?.language ?? DEFAULT_LANGUAGE);
+  // Untouched problems show the starter template for their language
+  const solutions = problems.map((p, i) => answers[p.id]?.code ?? starterTemplate(p, languages[i]));
+  const explanations = problems.map(p => answers[p.id]?.explanation ?? '');
+  const submittedProblems = problems.map(p => submitted.has(p.id));
+  const [showMissingFields, setShowMissingFields] = useState(false);
   const [memoryUsage, setMemoryUsage] = useState(0);
-  const [executionTime, setExecutionTime] = useState(0);
-
-  const problems: Problem[] = [
-    {
-      id: 1,
-      title: "Memory Allocation Optimizer",
-      difficulty: "Medium",
-      timeLimit: "2s",
-      memoryLimit: "256MB",
-      description: "Implement an algorithm to optimize memory allocation for a system with limited RAM. Given n processes with their memory requirements, find the optimal allocation strategy to minimize fragmentation.",
-      sampleInput: "5\n100 200 150 300 250",
-      sampleOutput: "Optimal allocation: [100, 150, 200, 250, 300]\nFragmentation: 12%"
-    },
-    {
-      id: 2,
-      title: "Cache Miss Minimization",
-      difficulty: "Hard",
-      timeLimit: "3s",
-      memoryLimit: "512MB",
-      description: "Design a cache replacement algorithm to minimize cache misses. Implement LRU with frequency-based optimization for a multi-level cache system.",
-      sampleInput: "Cache size: 4\nRequests: 1 2 3 4 1 2 5 1 2 3 4 5",
-      sampleOutput: "Cache misses: 7\nHit ratio: 41.67%"
-    },
-    {
-      id: 3,
-      title: "Virtual Memory Paging",
-      difficulty: "Medium",
-      timeLimit: "2s",
-      memoryLimit: "128MB",
-      description: "Simulate virtual memory paging with demand paging. Calculate page faults and implement optimal page replacement for maximum efficiency.",
-      sampleInput: "Pages: 3\nReference string: 7 0 1 2 0 3 0 4 2 3 0 3 2",
-      sampleOutput: "Page faults: 6\nPage frames: [3, 0, 2]"
-    },
-    {
-      id: 4,
-      title: "Memory Pool Management",
-      difficulty: "Easy",
-      timeLimit: "1s",
-      memoryLimit: "64MB",
-      description: "Create a memory pool allocator that efficiently manages fixed-size blocks. Implement allocation and deallocation with O(1) complexity.",
-      sampleInput: "Block size: 64\nPool size: 1024\nOperations: alloc alloc free alloc",
-      sampleOutput: "Block 0 allocated\nBlock 1 allocated\nBlock 1 freed\nBlock 1 allocated"
-    },
-    {
-      id: 5,
-      title: "RAM Bandwidth Optimization",
-      difficulty: "Hard",
-      timeLimit: "4s",
-      memoryLimit: "1GB",
-      description: "Optimize memory access patterns to maximize RAM bandwidth utilization. Consider NUMA architecture and memory controller limitations.",
-      sampleInput: "Memory controllers: 2\nAccess pattern: sequential random sequential\nData size: 1GB",
-      sampleOutput: "Bandwidth utilization: 87.3%\nOptimized pattern: interleaved"
-    }
-  ];
+  // Latest sample run per problem (not persisted; the submitted verdict lives in the draft)
+  const [runResults, setRunResults] = useState<Record<number, RunResult>>({});
+  const [running, setRunning] = useState(false);
+  const [judging, setJudging] = useState(false);
+  // Set when a language runtime failed to load, e.g. the Python download was blocked
+  const [runtimeError, setRuntimeError] = useState<string | null>(null);
+  const busy = running || judging;
+  const language = languages[currentProblem];
+  const runnable = isRunnable(language);
 
   useEffect(() => {
     // Simulate memory usage calculation
-    const totalSolutions = solutions.filter(sol => sol.length > 0).length;
-    setMemoryUsage((totalSolutions / 5) * 100);
-    setExecutionTime(totalSolutions * 0.8 + Math.random() * 0.4);
-  }, [solutions]);
-
-  const handleSolutionChange = (value: string) => {
-    const newSolutions = [...solutions];
-    newSolutions[currentProblem] = value;
-    setSolutions(newSolutions);
+    const totalSolutions = problems.filter(p => answers[p.id]?.code?.length > 0).length;
+    setMemoryUsage((totalSolutions / problems.length) * 100);
+  }, [answers]);
+
+  useEffect(() => {
+    // The Python runtime is a multi-megabyte download; start it as soon as it's picked
+    if (language === 'python') preloadPython().catch(() => {});
+  }, [language]);
+
+  const updateAnswer = (changes: Partial<CodingAnswer>) => {
+    setAnswer(problem.id, {
+      ...answers[problem.id],
+      code: solutions[currentProblem],
+      explanation: explanations[currentProblem],
+      language,
+      ...changes,
+    });
+  };
+
+  const changeLanguage = (next: Language) => {
+    // Swap the template along with the language unless the candidate has written code
+    const code = solutions[currentProblem];
+    const untouched = !code.trim() || code === starterTemplate(problem, language);
+    updateAnswer({ language: next, code: untouched ? starterTemplate(problem, next) : code });
+    setRunResults(prev => {
+      const rest = { ...prev };
+      delete rest[problem.id];
+      return rest;
+    });
   };
 
-  const handleSubmit = () => {
-    if (solutions[currentProblem].trim()) {
-      const newSubmitted = [...submittedProblems];
-      newSubmitted[currentProblem] = true;
-      setSubmittedProblems(newSubmitted);
+  const resetTemplate = () => {
+    if (window.confirm(`Replace your code with the ${LANGUAGES[language].label} starter template?`)) {
+      updateAnswer({ code: starterTemplate(problem, language) });
     }
   };
 
+  const executeSample = async () => {
+    setRunning(true);
+    setRuntimeError(null);
+    try {
+      const result = await runSample(problem, solutions[currentProblem], language);
+      setRunResults(prev => ({ ...prev, [problem.id]: result }));
+    } catch (error) {
+      if (!(error instanceof RuntimeUnavailableError)) throw error;
+      setRuntimeError(error.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRun = () => {
+    void executeSample();
+  };
+
+  const handleSubmit = async () => {
+    if (!solutions[currentProblem].trim() || !explanations[currentProblem].trim()) {
+      setShowMissingFields(true);
+      return;
+    }
+    setShowMissingFields(false);
+
+    // Exactly what is on screen now is what gets judged and submitted, whatever happens during judging
+    const judged = problem;
+    const code = solutions[currentProblem];
+    const explanation = explanations[currentProblem];
+
+    // Languages the browser can't execute go to the reviewers unjudged
+    let report: JudgeReport | undefined;
+    if (runnable) {
+      setJudging(true);
+      setRuntimeError(null);
+      try {
+        report = await judgeSolution(judged, code, language);
+      } catch (error) {
+        // Don't lose the submission over a failed download or a crashed worker; it is reviewed by hand instead
+        if (error instanceof RuntimeUnavailableError) {
+          setRuntimeError(`${error.message}. Submitted for manual review.`);
+        } else {
+          console.error(`Judging P${judged.id} failed`, error);
+          setRuntimeError('The judge failed to run your solution. Submitted for manual review.');
+        }
+      } finally {
+        setJudging(false);
+      }
+    }
+
+    setAnswer(judged.id, {
+      code,
+      explanation,
+      language,
+      judge: report,
+    });
+    markSubmitted(judged.id);
+    void submit(judged.id, code, {
+      explanation,
+      language,
+      autoScore: report && {
+        score: report.score,
+        maxScore: report.maxScore,
+        summary: `${report.verdict} · ${report.tests.filter(t => t.verdict === 'AC').length}/${report.tests.length} hidden tests passed`,
+      },
+      draftSavedAt: savedAt,
+    });
+  };
+
+  const selectProblem = (index: number) => {
+    // Stay on the problem being judged until its verdict is in
+    if (judging) return;
+    setShowMissingFields(false);
+    setRuntimeError(null);
+    setCurrentProblem(index);
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Easy': return '#4CAF50';
@@ -110,8 +187,17 @@ const CompetitiveCoding: React.FC = () => {
     return 'High';
   };
 
-  const solvedProblems = submittedProblems.filter(Boolean).length;
-  const accuracy = solutions.length > 0 ? (solvedProblems / 5) * 100 : 0;
+  // Stats come from judged submissions only
+  const reports = problems.map(p => answers[p.id]?.judge).filter((r): r is JudgeReport => !!r);
+  const solvedProblems = reports.filter(r => r.verdict === 'AC').length;
+  const totalScore = reports.reduce((sum, r) => sum + r.score, 0);
+  const testsRun = reports.reduce((sum, r) => sum + r.tests.length, 0);
+  const testsPassed = reports.reduce((sum, r) => sum + r.tests.filter(t => t.verdict === 'AC').length, 0);
+  const accuracy = testsRun > 0 ? (testsPassed / testsRun) * 100 : 0;
+  const currentResult = runResults[problem.id];
+  const currentReport = answers[problem.id]?.judge;
+  const shownVerdict = currentResult?.verdict ?? currentReport?.verdict;
+  const shownRuntime = currentResult?.timeMs ?? currentReport?.maxTimeMs;
 
   return (
     <div className="competitive-coding-container">
@@ -154,11 +240,12 @@ const CompetitiveCoding: React.FC = () => {
               </div>
               
               <div className="problem-selector">
-                {problems.map((problem, index) => (
+                {problems.map((p, index) => (
                   <div
-                    key={problem.id}
-                    className={`problem-chip ${currentProblem === index ? 'selected' : ''} ${submittedProblems[index] ? 'solved' : ''}`}
-                    onClick={() => setCurrentProblem(index)}
+                    key={p.id}
+                    className={`problem-chip ${currentProblem === index ? 'selected' : ''} ${submittedProblems[index] ? 'solved' : ''} ${judging ? 'locked' : ''}`}
+                    onClick={() => selectProblem(index)}
+                    aria-disabled={judging}
                   >
                     <div className="chip-contacts">
                       {Array.from({ length: 8 }).map((_, i) => (
@@ -169,10 +256,11 @@ const CompetitiveCoding: React.FC = () => {
                       ))}
                     </div>
                     <div className="chip-info">
-                      <div className="chip-id">P{problem.id}</div>
-                      <div className="chip-difficulty" style={{ color: getDifficultyColor(problem.difficulty) }}>
-                        {problem.difficulty}
+                      <div className="chip-id">P{p.id}</div>
+                      <div className="chip-difficulty" style={{ color: getDifficultyColor(p.difficulty) }}>
+                        {p.difficulty}
                       </div>
+                      <div className="chip-points">{p.points} pts</div>
                     </div>
                   </div>
                 ))}
@@ -181,7 +269,11 @@ const CompetitiveCoding: React.FC = () => {
               <div className="memory-stats">
                 <div className="stat-row">
                   <span className="stat-label">Problems Solved:</span>
-                  <span className="stat-value">{solvedProblems}/5</span>
+                  <span className="stat-value">{solvedProblems}/{problems.length}</span>
+                </div>
+                <div className="stat-row">
+                  <span className="stat-label">Score:</span>
+                  <span className="stat-value">{totalScore} pts</span>
                 </div>
                 <div className="stat-row">
                   <span className="stat-label">Accuracy:</span>
@@ -191,9 +283,17 @@ const CompetitiveCoding: React.FC = () => {
                   <span className="stat-label">Memory Usage:</span>
                   <span className="stat-value">{memoryUsage.toFixed(1)}%</span>
                 </div>
+                <div className="stat-row">
+                  <span className="stat-label">Verdict (P{problem.id}):</span>
+                  <span className={`stat-value verdict-text ${shownVerdict?.toLowerCase() ?? ''}`}>
+                    {shownVerdict ?? '—'}
+                  </span>
+                </div>
                 <div className="stat-row">
                   <span className="stat-label">Execution Time:</span>
-                  <span className="stat-value">{executionTime.toFixed(2)}s</span>
+                  <span className="stat-value">
+                    {shownRuntime === undefined ? '—' : `${shownRuntime.toFixed(1)} ms`}
+                  </span>
                 </div>
               </div>
             </div>
@@ -219,14 +319,21 @@ const CompetitiveCoding: React.FC = () => {
               <div className="problem-workspace">
                 <div className="problem-header">
                   <div className="problem-info">
-                    <h4>{problems[currentProblem].title}</h4>
+                    <h4>{problem.title}</h4>
                     <div className="problem-meta">
-                      <span className="difficulty-badge" style={{ backgroundColor: getDifficultyColor(problems[currentProblem].difficulty) }}>
-                        {problems[currentProblem].difficulty}
+                      <span className="difficulty-badge" style={{ backgroundColor: getDifficultyColor(problem.difficulty) }}>
+                        {problem.difficulty}
                       </span>
-                      <span className="time-limit">⏱ {problems[currentProblem].timeLimit}</span>
-                      <span className="memory-limit">💾 {problems[currentProblem].memoryLimit}</span>
+                      <span className="time-limit">⏱ {problem.timeLimit}</span>
+                      <span className="memory-limit">💾 {problem.memoryLimit}</span>
+                      <span className="points-badge">+{problem.points} pts</span>
                     </div>
+                    {problem.ramConcept && (
+                      <div className="ram-concept">
+                        <span className="concept-label">RAM Concept:</span>
+                        <span className="concept-value">{problem.ramConcept}</span>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="address-pins">
@@ -242,17 +349,17 @@ const CompetitiveCoding: React.FC = () => {
                 <div className="problem-description">
                   <div className="description-section">
                     <h5>Problem Description</h5>
-                    <p>{problems[currentProblem].description}</p>
+                    <pre className="problem-text">{problem.description}</pre>
                   </div>
 
                   <div className="io-section">
                     <div className="sample-input">
                       <h6>Sample Input</h6>
-                      <pre>{problems[currentProblem].sampleInput}</pre>
+                      <pre>{problem.sampleInput}</pre>
                     </div>
                     <div className="sample-output">
                       <h6>Sample Output</h6>
-                      <pre>{problems[currentProblem].sampleOutput}</pre>
+                      <pre>{problem.sampleOutput}</pre>
                     </div>
                   </div>
                 </div>
@@ -262,45 +369,176 @@ const CompetitiveCoding: React.FC = () => {
                     {Array.from({ length: 32 }).map((_, i) => (
                       <div 
                         key={i} 
-                        className={`bus-line ${solutions[currentProblem] && i < solutions[currentProblem].length / 10 ? 'active' : ''}`}
+                        className={`bus-line ${i < (answers[problem.id]?.code?.length ?? 0) / 10 ? 'active' : ''}`}
                       ></div>
                     ))}
                   </div>
                   
-                  <textarea
-                    className="solution-editor"
-                    placeholder="// Write your solution here...
-// Consider time and space complexity
-// Optimize for the given constraints
+                  <div className="editor-toolbar">
+                    <label className="language-select">
+                      <span>Language</span>
+                      <select
+                        value={language}
+                        onChange={(e) => changeLanguage(e.target.value as Language)}
+                        disabled={submittedProblems[currentProblem] || busy}
+                      >
+                        {LANGUAGE_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.label}{isRunnable(option.id) ? '' : ' (manual review)'}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      className="reset-template"
+                      onClick={resetTemplate}
+                      disabled={submittedProblems[currentProblem] || busy}
+                    >
+                      ↺ Starter Template
+                    </button>
+                  </div>
 
-function solve() {
-    // Your implementation
-}"
+                  <CodeEditor
+                    className="solution-editor"
+                    language={language}
+                    placeholder={`Write your ${problem.ramConcept ? `${problem.ramConcept.toLowerCase()} ` : ''}solution here...`}
                     value={solutions[currentProblem]}
-                    onChange={(e) => handleSolutionChange(e.target.value)}
-                    disabled={submittedProblems[currentProblem]}
+                    onChange={(code) => updateAnswer({ code })}
+                    disabled={submittedProblems[currentProblem] || judging}
                   />
 
+                  {!runnable && (
+                    <div className="solution-note">
+                      {LANGUAGES[language].label} can't run in the browser yet. Your solution will be reviewed by hand.
+                    </div>
+                  )}
+
+                  <h5 className="explanation-heading">Algorithm Explanation</h5>
+                  <textarea
+                    className="explanation-editor"
+                    placeholder="Explain your approach, time complexity, space complexity, and how it relates to RAM/memory concepts..."
+                    value={explanations[currentProblem]}
+                    onChange={(e) => updateAnswer({ explanation: e.target.value })}
+                    disabled={submittedProblems[currentProblem] || judging}
+                  />
+
+                  {runtimeError && (
+                    <div className="solution-warning">{runtimeError}</div>
+                  )}
+
+                  {showMissingFields && (
+                    <div className="solution-warning">
+                      Provide both code and an explanation before submitting.
+                    </div>
+                  )}
+
                   <div className="solution-controls">
-                    <button 
-                      className={`submit-solution ${submittedProblems[currentProblem] ? 'submitted' : ''}`}
-                      onClick={handleSubmit}
-                      disabled={!solutions[currentProblem].trim() || submittedProblems[currentProblem]}
-                    >
-                      {submittedProblems[currentProblem] ? '✓ Submitted' : 'Submit Solution'}
-                    </button>
+                    <div className="solution-buttons">
+                      <button
+                        className="run-solution"
+                        onClick={handleRun}
+                        disabled={!solutions[currentProblem].trim() || busy || !runnable}
+                      >
+                        ▶ Run Sample
+                      </button>
+                      <button 
+                        className={`submit-solution ${submittedProblems[currentProblem] ? 'submitted' : ''}`}
+                        onClick={() => void handleSubmit()}
+                        disabled={!solutions[currentProblem].trim() || submittedProblems[currentProblem] || busy}
+                      >
+                        {submittedProblems[currentProblem] ? '✓ Submitted' : judging ? 'Judging...' : 'Submit Solution'}
+                      </button>
+                    </div>
                     
                     <div className="performance-indicator">
-                      <div className="indicator-light"></div>
-                      <span>Ready</span>
+                      <div className={`indicator-light ${busy ? 'busy' : ''}`}></div>
+                      <span>{judging ? 'Judging...' : running ? 'Running...' : 'Ready'}</span>
                     </div>
                   </div>
+
+                  {currentReport && (
+                    <div className="judge-report">
+                      <div className="judge-summary">
+                        <span>Hidden Tests</span>
+                        <span className={`verdict-text ${currentReport.verdict.toLowerCase()}`}>{currentReport.verdict}</span>
+                        <span>{currentReport.score}/{currentReport.maxScore} pts</span>
+                      </div>
+                      <div className="test-verdicts">
+                        {currentReport.tests.map((test, i) => (
+                          <div
+                            key={i}
+                            className={`test-chip ${test.verdict.toLowerCase()}`}
+                            title={`${VERDICT_LABELS[test.verdict]} · weight ${test.weight}`}
+                          >
+                            <span className="test-id">#{i + 1}</span>
+                            <span>{test.verdict}</span>
+                            <span className="test-time">{test.timeMs.toFixed(0)}ms</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {currentResult && (
+                    <div className={`run-result ${currentResult.verdict.toLowerCase()}`}>
+                      <div className="run-result-header">
+                        <span className="verdict-badge">{currentResult.verdict}</span>
+                        <span className="verdict-label">{VERDICT_LABELS[currentResult.verdict]}</span>
+                        <span className="run-time">{currentResult.timeMs.toFixed(1)} ms</span>
+                      </div>
+                      {currentResult.error && <pre className="run-error">{currentResult.error}</pre>}
+                      {currentResult.verdict !== 'TLE' && (
+                        <div className="output-diff">
+                          <div className="diff-row diff-head">
+                            <span>#</span>
+                            <span>Expected</span>
+                            <span>Your Output</span>
+                          </div>
+                          {diffLines(currentResult.stdout, currentResult.expected).map(row => (
+                            <div key={row.line} className={`diff-row ${row.match ? 'match' : 'mismatch'}`}>
+                              <span>{row.line}</span>
+                              <span>{row.expected ?? '∅'}</span>
+                              <span>{row.actual ?? '∅'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Memory Usage Simulation: each problem owns a few blocks, allocated once it is submitted */}
+        <div className="memory-visualization">
+          <h5>Memory Usage Simulation</h5>
+          <div className="memory-blocks">
+            {problems.flatMap((p, index) =>
+              Array.from({ length: BLOCKS_PER_PROBLEM }, (_, i) => (
+                <div
+                  key={`${p.id}-${i}`}
+                  className={`memory-block ${submittedProblems[index] ? 'allocated' : 'free'}`}
+                  title={`P${p.id} · ${p.title}`}
+                >
+                  {submittedProblems[index] ? '1' : '0'}
+                </div>
+              ))
+            )}
+          </div>
+          <div className="memory-legend">
+            <span className="legend-item">
+              <span className="legend-color allocated"></span>
+              Allocated (Solution Submitted)
+            </span>
+            <span className="legend-item">
+              <span className="legend-color free"></span>
+              Free (Pending)
+            </span>
+          </div>
+        </div>
+
         {/* RAM Footer */}
         <div className="ram-footer">
           <div className="heat-spreader">
@@ -331,6 +569,7 @@ function solve() {
           </div>
         </div>
       </div>
+      <SavedIndicator savedAt={savedAt} pending={pending} rejected={rejected} />
     </div>
   );
 };
@@ -1,59 +1,39 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { loadQuestions } from '../data/questionBank';
+import AnswerInput from '../components/AnswerInput';
+import RubricBreakdown from '../components/RubricBreakdown';
+import SavedIndicator from '../components/SavedIndicator';
+import { useDraft } from '../hooks/useDraft';
+import { useSubmitAnswer } from '../hooks/useSubmitAnswer';
+import { scoreAnswer, scoreSubmissions, toAutoScore } from '../scoring/rubric';
 import './design.css';
 
-interface Question {
-  id: number;
-  question: string;
-  placeholder: string;
-}
-
-const designQuestions: Question[] = [
-  {
-    id: 1,
-    question: "What are the key principles of user-centered design and how do they impact product development?",
-    placeholder: "Discuss usability, accessibility, and user experience principles..."
-  },
-  {
-    id: 2,
-    question: "How does responsive design ensure optimal user experience across different devices?",
-    placeholder: "Explain adaptive layouts, breakpoints, and mobile-first approach..."
-  },
-  {
-    id: 3,
-    question: "What role does color theory play in creating effective user interfaces?",
-    placeholder: "Describe color psychology, contrast ratios, and accessibility considerations..."
-  },
-  {
-    id: 4,
-    question: "How do you approach designing for performance and loading optimization?",
-    placeholder: "Discuss image optimization, lazy loading, and performance metrics..."
-  },
-  {
-    id: 5,
-    question: "What are the best practices for creating accessible and inclusive designs?",
-    placeholder: "Cover WCAG guidelines, screen readers, and universal design principles..."
-  }
-];
+const designQuestions = loadQuestions('design', ['text', 'choice']);
 
 const DesignPage: React.FC = () => {
   const navigate = useNavigate();
-  const [answers, setAnswers] = useState<Record<number, string>>({});
-  const [submittedQuestions, setSubmittedQuestions] = useState<Set<number>>(new Set());
-  const [designProgress, setDesignProgress] = useState(0);
+  const { answers, submitted: submittedQuestions, savedAt, setAnswer, markSubmitted, unmarkSubmitted } = useDraft('design');
+  const { submit, pending, rejected } = useSubmitAnswer('design', unmarkSubmitted);
+  const { score, maxScore, breakdowns } = useMemo(
+    () => scoreSubmissions(designQuestions, answers, submittedQuestions),
+    [answers, submittedQuestions],
+  );
+  const designProgress = Math.min(100, submittedQuestions.size * 20);
 
   const handleAnswerChange = (questionId: number, value: string) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: value
-    }));
+    setAnswer(questionId, value);
   };
 
   const handleSubmitAnswer = (questionId: number) => {
-    if (answers[questionId]?.trim()) {
-      setSubmittedQuestions(prev => new Set([...prev, questionId]));
-      setDesignProgress((prev) => Math.min(100, prev + 20));
-      console.log(`Design Question ${questionId} submitted:`, answers[questionId]);
+    const question = designQuestions.find(q => q.id === questionId);
+    if (question && answers[questionId]?.trim() && !submittedQuestions.has(questionId)) {
+      markSubmitted(questionId);
+      const breakdown = scoreAnswer(question, answers[questionId]);
+      void submit(questionId, answers[questionId], {
+        autoScore: breakdown ? toAutoScore(breakdown) : undefined,
+        draftSavedAt: savedAt,
+      });
     }
   };
 
@@ -133,11 +113,11 @@ const DesignPage: React.FC = () => {
                           <div className="trace vertical"></div>
                         </div>
                         
-                        <textarea
+                        <AnswerInput
                           className="answer-input"
-                          placeholder={question.placeholder}
+                          question={question}
                           value={answers[question.id] || ''}
-                          onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                          onChange={(value) => handleAnswerChange(question.id, value)}
                           disabled={submittedQuestions.has(question.id)}
                         />
                         
@@ -148,6 +128,9 @@ const DesignPage: React.FC = () => {
                         >
                           {submittedQuestions.has(question.id) ? '✓ Designed' : 'Submit Design'}
                         </button>
+                        {breakdowns.has(question.id) && (
+                          <RubricBreakdown className="answer-breakdown" breakdown={breakdowns.get(question.id)!} />
+                        )}
                       </div>
                     </div>
                   </div>
@@ -189,6 +172,10 @@ const DesignPage: React.FC = () => {
               <span className="spec-label">Transfer Rate</span>
               <span className="spec-value">133 MB/s</span>
             </div>
+            <div className="spec-item">
+              <span className="spec-label">Design Score</span>
+              <span className="spec-value">{score}/{maxScore}</span>
+            </div>
             <div className="spec-item">
               <span className="spec-label">Design Progress</span>
               <span className="spec-value">{submittedQuestions.size}/{designQuestions.length}</span>
@@ -203,6 +190,7 @@ const DesignPage: React.FC = () => {
           </button>
         </div>
       </div>
+      <SavedIndicator savedAt={savedAt} pending={pending} rejected={rejected} />
     </div>
   );
 };
@@ -0,0 +1,51 @@
+import { Suspense, lazy } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import FlatMotherboard from '../components/FlatMotherboard';
+import { isDomainId } from '../domains/registry';
+import { useBoardMode } from '../hooks/useBoardMode';
+import './landing.css';
+
+// Visitors on the flat board never download three.js
+const Motherboard3D = lazy(() => import('../../components/motherboard'));
+
+export default function LandingPage() {
+  const { mode, reason, canUse3D, choose } = useBoardMode();
+  const navigate = useNavigate();
+  // Shareable links land on one domain: /board/research or /?focus=research
+  const { domain } = useParams();
+  const [searchParams] = useSearchParams();
+  const requested = domain ?? searchParams.get('focus');
+  const focus = isDomainId(requested) ? requested : null;
+
+  // Back to the plain board URL, keeping any other parameters (?seed=, ?stats)
+  const clearFocus = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('focus');
+    navigate({ pathname: '/', search: params.toString() }, { replace: true });
+  };
+
+  return (
+    <div className="landing-container">
+      {mode === '3d' ? (
+        <Suspense fallback={null}>
+          <Motherboard3D focus={focus} onClearFocus={clearFocus} />
+        </Suspense>
+      ) : (
+        <FlatMotherboard focus={focus} />
+      )}
+
+      {canUse3D ? (
+        <button
+          className="board-mode-toggle"
+          onClick={() => choose(mode === '3d' ? '2d' : '3d')}
+          aria-pressed={mode === '2d'}
+          title={reason === 'reduced-motion' ? 'Flat board shown because your system prefers reduced motion' : undefined}
+        >
+          {mode === '3d' ? '2D board' : '3D board'}
+        </button>
+      ) : (
+        <p className="board-mode-note">Your browser can't show the 3D board, so here is the flat version.</p>
+      )}
+    </div>
+  );
+}
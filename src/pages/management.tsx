@@ -1,74 +1,54 @@
-import { useState } from 'react';
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { loadQuestions } from '../data/questionBank';
+import AnswerInput from '../components/AnswerInput';
+import RubricBreakdown from '../components/RubricBreakdown';
+import SavedIndicator from '../components/SavedIndicator';
+import { useDraft } from '../hooks/useDraft';
+import { useSubmitAnswer } from '../hooks/useSubmitAnswer';
+import { scoreAnswer, scoreSubmissions, toAutoScore } from '../scoring/rubric';
 import './management.css';
 
-interface Question {
-  id: number;
-  question: string;
-  category: string;
-  points: number;
-}
-
-const managementQuestions: Question[] = [
-  {
-    id: 1,
-    question: "What is the primary responsibility of a CPU in computer architecture?",
-    category: "CPU Fundamentals",
-    points: 10
-  },
-  {
-    id: 2,
-    question: "Explain the concept of CPU cache hierarchy and its impact on performance.",
-    category: "Performance Management",
-    points: 15
-  },
-  {
-    id: 3,
-    question: "How does CPU scheduling work in operating systems?",
-    category: "Process Management",
-    points: 20
-  },
-  {
-    id: 4,
-    question: "What are the key differences between RISC and CISC architectures?",
-    category: "Architecture Design",
-    points: 25
-  },
-  {
-    id: 5,
-    question: "Describe the role of CPU cores in modern multi-threading applications.",
-    category: "Multi-Core Management",
-    points: 30
-  },
-  {
-    id: 6,
-    question: "How do you optimize CPU utilization in high-performance computing?",
-    category: "Performance Optimization",
-    points: 35
-  }
-];
+const managementQuestions = loadQuestions('management', ['text', 'choice']);
 
 export default function ManagementPage() {
-  const [answers, setAnswers] = useState<{[key: number]: string}>({});
-  const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [totalScore, setTotalScore] = useState(0);
+  const {
+    answers,
+    submitted,
+    currentIndex,
+    savedAt,
+    setAnswer,
+    markSubmitted,
+    unmarkSubmitted,
+    setCurrentIndex: setCurrentQuestion,
+  } = useDraft('management');
+  const { submit, pending, rejected } = useSubmitAnswer('management', unmarkSubmitted);
+  // A restored index can point past the end if the question bank shrank since the draft was saved
+  const currentQuestion = Math.min(currentIndex, managementQuestions.length - 1);
   const navigate = useNavigate();
+  const { score: totalScore, maxScore, breakdowns } = useMemo(
+    () => scoreSubmissions(managementQuestions, answers, submitted),
+    [answers, submitted],
+  );
+  const currentId = managementQuestions[currentQuestion]?.id;
+  const currentBreakdown = breakdowns.get(currentId);
 
   const handleAnswerChange = (questionId: number, answer: string) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: answer
-    }));
+    setAnswer(questionId, answer);
   };
 
+  // Each answer is scored once; PROCESS locks it so the score can't be re-earned
   const submitAnswer = (questionId: number) => {
     const answer = answers[questionId];
-    if (answer && answer.trim().length > 10) {
-      const question = managementQuestions.find(q => q.id === questionId);
-      if (question) {
-        setTotalScore(prev => prev + question.points);
-      }
-    }
+    const question = managementQuestions.find(q => q.id === questionId);
+    if (!question || !answer?.trim() || submitted.has(questionId)) return;
+
+    markSubmitted(questionId);
+    const breakdown = scoreAnswer(question, answer);
+    void submit(questionId, answer, {
+      autoScore: breakdown ? toAutoScore(breakdown) : undefined,
+      draftSavedAt: savedAt,
+    });
   };
 
   const nextQuestion = () => {
@@ -112,7 +92,7 @@ export default function ManagementPage() {
             </div>
             <div className="metric">
               <span className="metric-label">Score</span>
-              <span className="metric-value">{totalScore}</span>
+              <span className="metric-value">{totalScore}/{maxScore}</span>
             </div>
             <div className="metric">
               <span className="metric-label">Progress</span>
@@ -120,6 +100,11 @@ export default function ManagementPage() {
             </div>
           </div>
 
+          {/* Rubric breakdown for the current question once it has been processed */}
+          {currentBreakdown && (
+            <RubricBreakdown className="score-breakdown" breakdown={currentBreakdown} />
+          )}
+
           {/* Question Display Area (CPU Core) */}
           <div className="cpu-core">
             <div className="core-ring">
@@ -140,20 +125,21 @@ export default function ManagementPage() {
           {/* Answer Input Area */}
           <div className="answer-section">
             <div className="cache-label">L1 CACHE - ANSWER BUFFER</div>
-            <textarea
+            <AnswerInput
               className="answer-input"
-              placeholder="Enter your management solution here..."
+              question={managementQuestions[currentQuestion]}
               value={answers[managementQuestions[currentQuestion]?.id] || ''}
-              onChange={(e) => handleAnswerChange(managementQuestions[currentQuestion]?.id, e.target.value)}
+              onChange={(value) => handleAnswerChange(managementQuestions[currentQuestion]?.id, value)}
               rows={4}
+              disabled={submitted.has(currentId)}
             />
             <div className="answer-controls">
               <button 
                 className="submit-btn"
                 onClick={() => submitAnswer(managementQuestions[currentQuestion]?.id)}
-                disabled={!answers[managementQuestions[currentQuestion]?.id]?.trim()}
+                disabled={!answers[managementQuestions[currentQuestion]?.id]?.trim() || submitted.has(currentId)}
               >
-                PROCESS
+                {submitted.has(currentId) ? 'PROCESSED' : 'PROCESS'}
               </button>
               <div className="character-count">
                 {answers[managementQuestions[currentQuestion]?.id]?.length || 0} characters
@@ -224,6 +210,7 @@ export default function ManagementPage() {
       >
         ← RETURN TO MOTHERBOARD
       </button>
+      <SavedIndicator savedAt={savedAt} pending={pending} rejected={rejected} />
     </div>
   );
 }
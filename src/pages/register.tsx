@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useCandidate, type CandidateDetails, type StudyYear } from '../context/candidate';
+import { DOMAINS, domainLabel, type Domain } from '../data/questionBank';
+import { getDomain } from '../domains/registry';
+import './register.css';
+
+const YEARS: { value: StudyYear, label: string }[] = [
+  { value: '1', label: '1st Year' },
+  { value: '2', label: '2nd Year' },
+  { value: '3', label: '3rd Year' },
+  { value: '4', label: '4th Year' },
+  { value: 'PG', label: 'Postgraduate' },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type FormErrors = Partial<Record<keyof CandidateDetails, string>>;
+
+function validate(details: CandidateDetails): FormErrors {
+  const errors: FormErrors = {};
+  if (!details.name.trim()) errors.name = 'Name is required';
+  if (!details.rollNumber.trim()) errors.rollNumber = 'Roll number is required';
+  if (!EMAIL_PATTERN.test(details.email.trim())) errors.email = 'Enter a valid email address';
+  if (details.preferredDomains.length === 0) errors.preferredDomains = 'Pick at least one domain';
+  return errors;
+}
+
+/* Only follow in-app redirects */
+const safeNext = (next: string | null) => (next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+
+export default function RegisterPage() {
+  const { candidate, register } = useCandidate();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const next = safeNext(searchParams.get('next'));
+
+  const [details, setDetails] = useState<CandidateDetails>(() => ({
+    name: candidate?.name ?? '',
+    rollNumber: candidate?.rollNumber ?? '',
+    email: candidate?.email ?? '',
+    year: candidate?.year ?? '1',
+    // Pre-select the domain the visitor was heading to
+    preferredDomains: candidate?.preferredDomains
+      ?? DOMAINS.filter(domain => next === getDomain(domain).route),
+  }));
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const updateField = <K extends keyof CandidateDetails>(field: K, value: CandidateDetails[K]) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const toggleDomain = (domain: Domain) => {
+    updateField('preferredDomains', details.preferredDomains.includes(domain)
+      ? details.preferredDomains.filter(d => d !== domain)
+      : [...details.preferredDomains, domain]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = validate(details);
+    if (Object.keys(found).length > 0) {
+      setErrors(found);
+      return;
+    }
+    register({
+      ...details,
+      name: details.name.trim(),
+      rollNumber: details.rollNumber.trim().toUpperCase(),
+      email: details.email.trim().toLowerCase(),
+    });
+    navigate(next, { replace: true });
+  };
+
+  return (
+    <div className="register-container">
+      <form className="bios-panel" onSubmit={handleSubmit} noValidate>
+        <div className="bios-header">
+          <h1>ACM BIOS Setup</h1>
+          <p>Candidate Registration — complete POST to boot into a domain</p>
+        </div>
+
+        <label className="bios-field">
+          <span className="field-label">Name</span>
+          <input
+            type="text"
+            value={details.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            autoComplete="name"
+            aria-invalid={!!errors.name}
+          />
+          {errors.name && <span className="field-error">{errors.name}</span>}
+        </label>
+
+        <label className="bios-field">
+          <span className="field-label">Roll Number</span>
+          <input
+            type="text"
+            value={details.rollNumber}
+            onChange={(e) => updateField('rollNumber', e.target.value)}
+            aria-invalid={!!errors.rollNumber}
+          />
+          {errors.rollNumber && <span className="field-error">{errors.rollNumber}</span>}
+        </label>
+
+        <label className="bios-field">
+          <span className="field-label">Email</span>
+          <input
+            type="email"
+            value={details.email}
+            onChange={(e) => updateField('email', e.target.value)}
+            autoComplete="email"
+            aria-invalid={!!errors.email}
+          />
+          {errors.email && <span className="field-error">{errors.email}</span>}
+        </label>
+
+        <label className="bios-field">
+          <span className="field-label">Year</span>
+          <select
+            value={details.year}
+            onChange={(e) => updateField('year', e.target.value as StudyYear)}
+          >
+            {YEARS.map(year => (
+              <option key={year.value} value={year.value}>{year.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <fieldset className="bios-field domain-picker">
+          <legend className="field-label">Preferred Domains</legend>
+          <div className="domain-options">
+            {DOMAINS.map(domain => (
+              <label
+                key={domain}
+                className={`domain-option ${details.preferredDomains.includes(domain) ? 'selected' : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={details.preferredDomains.includes(domain)}
+                  onChange={() => toggleDomain(domain)}
+                />
+                {domainLabel(domain)}
+              </label>
+            ))}
+          </div>
+          {errors.preferredDomains && <span className="field-error">{errors.preferredDomains}</span>}
+        </fieldset>
+
+        <div className="bios-actions">
+          <button type="button" className="bios-btn secondary" onClick={() => navigate('/')}>
+            ← Back to Motherboard
+          </button>
+          <button type="submit" className="bios-btn primary">
+            {candidate ? 'Save & Continue' : 'Register & Boot'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,58 +1,38 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { loadQuestions } from '../data/questionBank';
+import AnswerInput from '../components/AnswerInput';
+import RubricBreakdown from '../components/RubricBreakdown';
+import SavedIndicator from '../components/SavedIndicator';
+import { useDraft } from '../hooks/useDraft';
+import { useSubmitAnswer } from '../hooks/useSubmitAnswer';
+import { scoreAnswer, scoreSubmissions, toAutoScore } from '../scoring/rubric';
 import './research.css';
 
-interface Question {
-  id: number;
-  question: string;
-  placeholder: string;
-}
-
-const researchQuestions: Question[] = [
-  {
-    id: 1,
-    question: "What is the main advantage of PCIe 5.0 over PCIe 4.0 in terms of bandwidth?",
-    placeholder: "Enter your research findings..."
-  },
-  {
-    id: 2,
-    question: "How does the lane configuration (x1, x4, x8, x16) affect PCIe slot performance?",
-    placeholder: "Describe the relationship between lanes and performance..."
-  },
-  {
-    id: 3,
-    question: "What are the key differences between PCIe and legacy PCI bus architecture?",
-    placeholder: "Compare and contrast the two architectures..."
-  },
-  {
-    id: 4,
-    question: "In what scenarios would you choose a PCIe x8 slot over a PCIe x16 slot?",
-    placeholder: "Explain your reasoning with examples..."
-  },
-  {
-    id: 5,
-    question: "How does PCIe hot-swapping technology work and what are its applications?",
-    placeholder: "Describe the mechanism and use cases..."
-  }
-];
+const researchQuestions = loadQuestions('research', ['text', 'choice']);
 
 const ResearchPage: React.FC = () => {
   const navigate = useNavigate();
-  const [answers, setAnswers] = useState<Record<number, string>>({});
-  const [submittedQuestions, setSubmittedQuestions] = useState<Set<number>>(new Set());
+  const { answers, submitted: submittedQuestions, savedAt, setAnswer, markSubmitted, unmarkSubmitted } = useDraft('research');
+  const { submit, pending, rejected } = useSubmitAnswer('research', unmarkSubmitted);
+  const { score, maxScore, breakdowns } = useMemo(
+    () => scoreSubmissions(researchQuestions, answers, submittedQuestions),
+    [answers, submittedQuestions],
+  );
 
   const handleAnswerChange = (questionId: number, value: string) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: value
-    }));
+    setAnswer(questionId, value);
   };
 
   const handleSubmitAnswer = (questionId: number) => {
-    if (answers[questionId]?.trim()) {
-      setSubmittedQuestions(prev => new Set([...prev, questionId]));
-      // You can add logic here to save the answer to a backend or local storage
-      console.log(`Research Question ${questionId} submitted:`, answers[questionId]);
+    const question = researchQuestions.find(q => q.id === questionId);
+    if (question && answers[questionId]?.trim() && !submittedQuestions.has(questionId)) {
+      markSubmitted(questionId);
+      const breakdown = scoreAnswer(question, answers[questionId]);
+      void submit(questionId, answers[questionId], {
+        autoScore: breakdown ? toAutoScore(breakdown) : undefined,
+        draftSavedAt: savedAt,
+      });
     }
   };
 
@@ -106,11 +86,11 @@ const ResearchPage: React.FC = () => {
                     </div>
                     
                     <div className="answer-section">
-                      <textarea
+                      <AnswerInput
                         className="answer-input"
-                        placeholder={question.placeholder}
+                        question={question}
                         value={answers[question.id] || ''}
-                        onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                        onChange={(value) => handleAnswerChange(question.id, value)}
                         disabled={submittedQuestions.has(question.id)}
                       />
                       
@@ -121,6 +101,9 @@ const ResearchPage: React.FC = () => {
                       >
                         {submittedQuestions.has(question.id) ? '✓ Submitted' : 'Submit Research'}
                       </button>
+                      {breakdowns.has(question.id) && (
+                        <RubricBreakdown className="answer-breakdown" breakdown={breakdowns.get(question.id)!} />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -136,7 +119,7 @@ const ResearchPage: React.FC = () => {
                     ></div>
                   </div>
                   <div className="bandwidth-text">
-                    {submittedQuestions.size}/{researchQuestions.length} Questions Completed
+                    {submittedQuestions.size}/{researchQuestions.length} Questions Completed · {score}/{maxScore} pts
                   </div>
                 </div>
               </div>
@@ -163,6 +146,7 @@ const ResearchPage: React.FC = () => {
           </button>
         </div>
       </div>
+      <SavedIndicator savedAt={savedAt} pending={pending} rejected={rejected} />
     </div>
   );
 };
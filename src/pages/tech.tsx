@@ -1,60 +1,40 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { loadQuestions } from '../data/questionBank';
+import AnswerInput from '../components/AnswerInput';
+import RubricBreakdown from '../components/RubricBreakdown';
+import SavedIndicator from '../components/SavedIndicator';
+import { useDraft } from '../hooks/useDraft';
+import { useSubmitAnswer } from '../hooks/useSubmitAnswer';
+import { scoreAnswer, scoreSubmissions, toAutoScore } from '../scoring/rubric';
 import './tech.css';
 
-interface Question {
-  id: number;
-  question: string;
-  placeholder: string;
-}
-
-const techQuestions: Question[] = [
-  {
-    id: 1,
-    question: "What are the key differences between air cooling and liquid cooling systems?",
-    placeholder: "Compare thermal efficiency, cost, and maintenance..."
-  },
-  {
-    id: 2,
-    question: "How does thermal conductivity affect heat sink performance?",
-    placeholder: "Explain the relationship between materials and heat transfer..."
-  },
-  {
-    id: 3,
-    question: "What role do heat pipes play in modern CPU cooling solutions?",
-    placeholder: "Describe the working principle and advantages..."
-  },
-  {
-    id: 4,
-    question: "How does fin density impact cooling efficiency in heat sinks?",
-    placeholder: "Analyze the trade-offs between surface area and airflow..."
-  },
-  {
-    id: 5,
-    question: "What are the latest innovations in thermal interface materials (TIM)?",
-    placeholder: "Discuss recent developments and their impact on cooling..."
-  }
-];
+const techQuestions = loadQuestions('tech', ['text', 'choice']);
 
 const TechPage: React.FC = () => {
   const navigate = useNavigate();
-  const [answers, setAnswers] = useState<Record<number, string>>({});
-  const [submittedQuestions, setSubmittedQuestions] = useState<Set<number>>(new Set());
-  const [fanSpeed, setFanSpeed] = useState(60);
+  const { answers, submitted: submittedQuestions, savedAt, setAnswer, markSubmitted, unmarkSubmitted } = useDraft('tech');
+  const { submit, pending, rejected } = useSubmitAnswer('tech', unmarkSubmitted);
+  const { score, maxScore, breakdowns } = useMemo(
+    () => scoreSubmissions(techQuestions, answers, submittedQuestions),
+    [answers, submittedQuestions],
+  );
+  // Fan spins up with each submitted answer
+  const fanSpeed = Math.min(100, 60 + submittedQuestions.size * 8);
 
   const handleAnswerChange = (questionId: number, value: string) => {
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: value
-    }));
+    setAnswer(questionId, value);
   };
 
   const handleSubmitAnswer = (questionId: number) => {
-    if (answers[questionId]?.trim()) {
-      setSubmittedQuestions(prev => new Set([...prev, questionId]));
-      // Increase fan speed with each submitted answer
-      setFanSpeed(prev => Math.min(100, prev + 8));
-      console.log(`Tech Question ${questionId} submitted:`, answers[questionId]);
+    const question = techQuestions.find(q => q.id === questionId);
+    if (question && answers[questionId]?.trim() && !submittedQuestions.has(questionId)) {
+      markSubmitted(questionId);
+      const breakdown = scoreAnswer(question, answers[questionId]);
+      void submit(questionId, answers[questionId], {
+        autoScore: breakdown ? toAutoScore(breakdown) : undefined,
+        draftSavedAt: savedAt,
+      });
     }
   };
 
@@ -103,11 +83,11 @@ const TechPage: React.FC = () => {
                   </div>
                   
                   <div className="answer-section">
-                    <textarea
+                    <AnswerInput
                       className="answer-input"
-                      placeholder={question.placeholder}
+                      question={question}
                       value={answers[question.id] || ''}
-                      onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                      onChange={(value) => handleAnswerChange(question.id, value)}
                       disabled={submittedQuestions.has(question.id)}
                     />
                     
@@ -118,6 +98,9 @@ const TechPage: React.FC = () => {
                     >
                       {submittedQuestions.has(question.id) ? '✓ Cooled' : 'Submit Tech'}
                     </button>
+                    {breakdowns.has(question.id) && (
+                      <RubricBreakdown className="answer-breakdown" breakdown={breakdowns.get(question.id)!} />
+                    )}
                   </div>
                 </div>
 
@@ -166,6 +149,10 @@ const TechPage: React.FC = () => {
               <span className="stat-label">Progress</span>
               <span className="stat-value">{submittedQuestions.size}/{techQuestions.length}</span>
             </div>
+            <div className="stat-item">
+              <span className="stat-label">Score</span>
+              <span className="stat-value">{score}/{maxScore}</span>
+            </div>
             <div className="stat-item">
               <span className="stat-label">Cooling Efficiency</span>
               <span className="stat-value">{Math.round((submittedQuestions.size / techQuestions.length) * 100)}%</span>
@@ -180,6 +167,7 @@ const TechPage: React.FC = () => {
           </button>
         </div>
       </div>
+      <SavedIndicator savedAt={savedAt} pending={pending} rejected={rejected} />
     </div>
   );
 };
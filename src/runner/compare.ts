@@ -0,0 +1,32 @@
+/* Trailing spaces and trailing blank lines never decide a verdict */
+export function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trimEnd();
+}
+
+export function outputsMatch(actual: string, expected: string) {
+  return normalizeOutput(actual) === normalizeOutput(expected);
+}
+
+export interface LineDiff {
+  line: number;
+  expected: string | null;
+  actual: string | null;
+  match: boolean;
+}
+
+export function diffLines(actual: string, expected: string): LineDiff[] {
+  const actualLines = normalizeOutput(actual).split('\n');
+  const expectedLines = normalizeOutput(expected).split('\n');
+  const length = Math.max(actualLines.length, expectedLines.length);
+
+  return Array.from({ length }, (_, i) => {
+    const a = actualLines[i] ?? null;
+    const e = expectedLines[i] ?? null;
+    return { line: i + 1, expected: e, actual: a, match: a === e };
+  });
+}
@@ -0,0 +1,22 @@
+import type { Language } from '../editor/languages';
+import { runJavaScript } from './runJavaScript';
+import { runPython } from './runPython';
+import type { ExecutionResult } from './types';
+
+type Executor = (code: string, input: string, timeLimitMs: number) => Promise<ExecutionResult>;
+
+/* Languages the browser can execute; anything else is submitted for manual review */
+const EXECUTORS: Partial<Record<Language, Executor>> = {
+  javascript: runJavaScript,
+  python: runPython,
+};
+
+export const RUNNABLE_LANGUAGES = Object.keys(EXECUTORS) as Language[];
+
+export const isRunnable = (language: Language) => language in EXECUTORS;
+
+export function execute(language: Language, code: string, input: string, timeLimitMs: number): Promise<ExecutionResult> {
+  const executor = EXECUTORS[language];
+  if (!executor) throw new Error(`No in-browser runtime for ${language}`);
+  return executor(code, input, timeLimitMs);
+}
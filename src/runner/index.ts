@@ -0,0 +1,22 @@
+import type { CodeQuestion } from '../data/questionBank';
+import type { Language } from '../editor/languages';
+import { execute } from './execute';
+import { parseTimeLimit } from './limits';
+import type { RunResult } from './types';
+import { toRunResult } from './verdict';
+
+export type { ExecutionResult, RunResult, Verdict } from './types';
+export type { JudgeReport, TestVerdict } from './judge';
+export { RuntimeUnavailableError, VERDICT_LABELS } from './types';
+export { diffLines } from './compare';
+export { isRunnable, RUNNABLE_LANGUAGES } from './execute';
+export { judgeSolution } from './judge';
+export { parseTimeLimit } from './limits';
+export { preloadPython } from './runPython';
+export { toRunResult } from './verdict';
+
+/* Feeds the problem's sample input to the candidate's program and diffs the result */
+export async function runSample(problem: CodeQuestion, code: string, language: Language): Promise<RunResult> {
+  const execution = await execute(language, code, problem.sampleInput, parseTimeLimit(problem.timeLimit));
+  return toRunResult(execution, problem.sampleOutput);
+}
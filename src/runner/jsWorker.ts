@@ -0,0 +1,73 @@
+import type { WorkerRequest, WorkerResponse } from './types';
+
+/*
+  Runs one candidate JavaScript program per worker. The program either
+  defines solve(input) and returns its answer, or prints with console.log.
+  The worker is thrown away after the one run.
+
+  Before the program runs, the network, storage and messaging APIs are
+  removed from the worker's global object, and the program is strict so
+  `this` isn't the global. This is best-effort hardening, not isolation:
+  dynamic import() can't be removed, in module or classic workers, so a
+  program can still load a script from another origin and reach the network
+  that way. Nothing here should be trusted to keep candidate code offline,
+  which is one reason judge scores are only advisory.
+*/
+
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'BroadcastChannel', 'Worker',
+  'importScripts', 'postMessage', 'close', 'indexedDB', 'caches',
+];
+
+function lockDown() {
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      // A non-configurable own property is what a program can't redefine or delete to get the original back
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch (error) {
+      console.warn(`Could not remove ${name} from the worker`, error);
+    }
+  }
+}
+
+const format = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(format).join(' ');
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { code, input } = event.data;
+  const reply = self.postMessage.bind(self);
+  const lines: string[] = [];
+  const sandboxConsole = {
+    log: (...args: unknown[]) => lines.push(args.map(format).join(' ')),
+    error: () => {},
+    warn: () => {},
+    info: (...args: unknown[]) => lines.push(args.map(format).join(' ')),
+  };
+
+  const start = performance.now();
+  let response: WorkerResponse;
+  try {
+    lockDown();
+    const program = new Function(
+      'input',
+      'console',
+      `'use strict';\n${code}\n;return typeof solve === 'function' ? solve(input) : undefined;`,
+    );
+    const returned = await program(input, sandboxConsole);
+    if (returned !== undefined) lines.push(format(returned));
+    response = { ok: true, stdout: lines.join('\n'), timeMs: performance.now() - start };
+  } catch (error) {
+    response = {
+      ok: false,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+      stdout: lines.join('\n'),
+      timeMs: performance.now() - start,
+    };
+  }
+
+  reply(response);
+};
@@ -0,0 +1,61 @@
+import type { CodeQuestion } from '../data/questionBank';
+import type { Language } from '../editor/languages';
+import { execute } from './execute';
+import { parseTimeLimit } from './limits';
+import { toRunResult } from './verdict';
+import type { Verdict } from './types';
+
+/* Per-test outcome; deliberately carries no input or output so hidden cases stay hidden */
+export interface TestVerdict {
+  verdict: Verdict;
+  timeMs: number;
+  weight: number;
+}
+
+export interface JudgeReport {
+  verdict: Verdict;
+  tests: TestVerdict[];
+  passedWeight: number;
+  totalWeight: number;
+  score: number;
+  maxScore: number;
+  maxTimeMs: number;
+  judgedAt: string;
+}
+
+/*
+  Runs every hidden test case and awards the problem's points in proportion
+  to the weight of the cases passed. Problems without hidden tests are
+  judged on the sample alone.
+
+  Judging runs in the candidate's browser against cases bundled with the
+  page, so the score can be forged or solved from the bundle. It is sent as
+  an advisory auto score for reviewers, never as the final mark.
+*/
+export async function judgeSolution(problem: CodeQuestion, code: string, language: Language): Promise<JudgeReport> {
+  const cases = problem.tests.length > 0
+    ? problem.tests
+    : [{ input: problem.sampleInput, output: problem.sampleOutput, weight: 1 }];
+  const timeLimitMs = parseTimeLimit(problem.timeLimit);
+
+  // Sequential on purpose: parallel workers would compete for the CPU and skew the timings
+  const tests: TestVerdict[] = [];
+  for (const testCase of cases) {
+    const result = toRunResult(await execute(language, code, testCase.input, timeLimitMs), testCase.output);
+    tests.push({ verdict: result.verdict, timeMs: result.timeMs, weight: testCase.weight });
+  }
+
+  const totalWeight = cases.reduce((sum, c) => sum + c.weight, 0);
+  const passedWeight = tests.reduce((sum, t) => sum + (t.verdict === 'AC' ? t.weight : 0), 0);
+
+  return {
+    verdict: tests.find(t => t.verdict !== 'AC')?.verdict ?? 'AC',
+    tests,
+    passedWeight,
+    totalWeight,
+    score: Math.round((problem.points * passedWeight) / totalWeight),
+    maxScore: problem.points,
+    maxTimeMs: Math.max(...tests.map(t => t.timeMs)),
+    judgedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,9 @@
+const DEFAULT_TIME_LIMIT_MS = 2000;
+
+/* Parses question bank time limits such as "2s", "1 second", "1.5 seconds" or "500ms" */
+export function parseTimeLimit(limit: string): number {
+  const match = limit.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?)$/);
+  if (!match) return DEFAULT_TIME_LIMIT_MS;
+  const value = Number(match[1]);
+  return match[2].startsWith('m') ? value : value * 1000;
+}
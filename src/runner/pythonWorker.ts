@@ -0,0 +1,111 @@
+import type { PythonWorkerRequest, PythonWorkerResponse } from './types';
+
+/*
+  Hosts one Pyodide interpreter for many runs: loading it takes seconds, so
+  the worker is only replaced after a timeout forces a terminate. Each run
+  gets fresh globals and reads the problem input from stdin.
+*/
+
+/* The slice of the Pyodide API used here; the package itself is loaded from indexURL at runtime */
+interface PyProxy {
+  set(key: string, value: unknown): void;
+  destroy(): void;
+}
+
+interface PyodideInterface {
+  globals: { get(name: string): () => PyProxy };
+  setStdin(options: { stdin: () => string | null }): void;
+  setStdout(options: { write: (buffer: Uint8Array) => number }): void;
+  setStderr(options: { write: (buffer: Uint8Array) => number }): void;
+  runPython(code: string, options?: { globals?: PyProxy }): unknown;
+}
+
+interface PyodideModule {
+  loadPyodide(options: { indexURL: string }): Promise<PyodideInterface>;
+}
+
+let pyodide: PyodideInterface | null = null;
+
+const post = (message: PythonWorkerResponse) => self.postMessage(message);
+
+/* Drops the interpreter's own frames so the traceback only points into the candidate's code */
+function formatPythonError(error: unknown) {
+  if (!(error instanceof Error)) return String(error);
+  const lines = error.message.split('\n');
+  const keep: string[] = [];
+  let internalFrame = false;
+  for (const line of lines) {
+    if (/^\s*File "/.test(line)) internalFrame = line.includes('"/lib/python');
+    // A frame's source and caret lines are indented deeper than its header
+    else if (!line.startsWith('    ')) internalFrame = false;
+    if (!internalFrame) keep.push(line);
+  }
+  return keep.join('\n').trim();
+}
+
+/* sys.exit() and sys.exit(0) end a program normally */
+const isCleanExit = (message: string) => /SystemExit(: (0|None))?\s*$/.test(message);
+
+async function load(indexURL: string) {
+  try {
+    const module = (await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`)) as PyodideModule;
+    pyodide = await module.loadPyodide({ indexURL });
+    post({ type: 'ready' });
+  } catch (error) {
+    post({ type: 'load-error', error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function run(id: number, code: string, input: string) {
+  if (!pyodide) {
+    post({ type: 'result', id, ok: false, error: 'Python runtime is not loaded', stdout: '', timeMs: 0 });
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let stdout = '';
+  let stdinRead = false;
+  pyodide.setStdin({
+    stdin: () => {
+      if (stdinRead) return null;
+      stdinRead = true;
+      return input;
+    },
+  });
+  pyodide.setStdout({
+    write: buffer => {
+      stdout += decoder.decode(buffer, { stream: true });
+      return buffer.length;
+    },
+  });
+  pyodide.setStderr({ write: buffer => buffer.length });
+
+  const globals = pyodide.globals.get('dict')();
+  globals.set('__name__', '__main__');
+
+  const start = performance.now();
+  try {
+    pyodide.runPython(code, { globals });
+    pyodide.runPython('import sys; sys.stdout.flush()');
+    post({ type: 'result', id, ok: true, stdout: stdout.replace(/\n$/, ''), timeMs: performance.now() - start });
+  } catch (error) {
+    const timeMs = performance.now() - start;
+    const message = formatPythonError(error);
+    if (isCleanExit(message)) {
+      post({ type: 'result', id, ok: true, stdout: stdout.replace(/\n$/, ''), timeMs });
+    } else {
+      post({ type: 'result', id, ok: false, error: message, stdout, timeMs });
+    }
+  } finally {
+    globals.destroy();
+  }
+}
+
+self.onmessage = (event: MessageEvent<PythonWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'load') {
+    void load(message.indexURL);
+  } else {
+    run(message.id, message.code, message.input);
+  }
+};
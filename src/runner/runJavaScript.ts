@@ -0,0 +1,43 @@
+import type { ExecutionResult, WorkerResponse } from './types';
+
+/* Worker start-up isn't the candidate's fault; only the measured run time counts against the limit */
+const STARTUP_GRACE_MS = 500;
+
+/*
+  Executes a JavaScript program in a fresh worker. The worker is terminated
+  when the time limit passes, which is the only way to stop an infinite loop.
+*/
+export function runJavaScript(code: string, input: string, timeLimitMs: number): Promise<ExecutionResult> {
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('./jsWorker.ts', import.meta.url), { type: 'module' });
+    const startedAt = performance.now();
+
+    const finish = (result: ExecutionResult) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const timer = window.setTimeout(() => {
+      finish({ status: 'timeout', timeMs: performance.now() - startedAt });
+    }, timeLimitMs + STARTUP_GRACE_MS);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.timeMs > timeLimitMs) {
+        finish({ status: 'timeout', timeMs: response.timeMs });
+      } else if (response.ok) {
+        finish({ status: 'ok', stdout: response.stdout, timeMs: response.timeMs });
+      } else {
+        finish({ status: 'error', error: response.error, stdout: response.stdout, timeMs: response.timeMs });
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish({ status: 'error', error: event.message || 'Worker crashed', stdout: '', timeMs: performance.now() - startedAt });
+    };
+
+    worker.postMessage({ code, input });
+  });
+}
@@ -0,0 +1,50 @@
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'RE';
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+  AC: 'Accepted',
+  WA: 'Wrong Answer',
+  TLE: 'Time Limit Exceeded',
+  RE: 'Runtime Error',
+};
+
+/* Raw outcome of executing a program once, before comparing with the expected output */
+export type ExecutionResult =
+  | { status: 'ok', stdout: string, timeMs: number }
+  | { status: 'error', error: string, stdout: string, timeMs: number }
+  | { status: 'timeout', timeMs: number };
+
+export interface RunResult {
+  verdict: Verdict;
+  stdout: string;
+  expected: string;
+  timeMs: number;
+  error?: string;
+}
+
+/* The runtime for a language could not be started (e.g. the Python download failed); not the candidate's fault */
+export class RuntimeUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuntimeUnavailableError';
+  }
+}
+
+/* Messages exchanged with the execution workers */
+export interface WorkerRequest {
+  code: string;
+  input: string;
+}
+
+export type WorkerResponse =
+  | { ok: true, stdout: string, timeMs: number }
+  | { ok: false, error: string, stdout: string, timeMs: number };
+
+/* The Python worker outlives a single run, so its messages are tagged */
+export type PythonWorkerRequest =
+  | { type: 'load', indexURL: string }
+  | { type: 'run', id: number } & WorkerRequest;
+
+export type PythonWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'load-error', error: string }
+  | { type: 'result', id: number } & WorkerResponse;
@@ -0,0 +1,19 @@
+import { outputsMatch } from './compare';
+import type { ExecutionResult, RunResult } from './types';
+
+/* Turns a raw execution into a judge verdict against the expected output */
+export function toRunResult(execution: ExecutionResult, expected: string): RunResult {
+  switch (execution.status) {
+    case 'timeout':
+      return { verdict: 'TLE', stdout: '', expected, timeMs: execution.timeMs };
+    case 'error':
+      return { verdict: 'RE', stdout: execution.stdout, expected, timeMs: execution.timeMs, error: execution.error };
+    case 'ok':
+      return {
+        verdict: outputsMatch(execution.stdout, expected) ? 'AC' : 'WA',
+        stdout: execution.stdout,
+        expected,
+        timeMs: execution.timeMs,
+      };
+  }
+}
@@ -0,0 +1,118 @@
+import type { ChoiceQuestion, TextQuestion } from '../data/questionBank';
+import type { AutoScore } from '../services/submission';
+
+/*
+  Rubric scoring for written answers. An answer below the rubric's minimum
+  length scores nothing; otherwise it earns the question's points in
+  proportion to the weight of the concepts it mentions. Scores are derived
+  from the submitted answers each time, never accumulated, so a question can
+  only ever count once.
+*/
+
+type ScorableQuestion = TextQuestion | ChoiceQuestion;
+
+export interface ConceptResult {
+  label: string;
+  weight: number;
+  /* The keyword that matched, if any */
+  matched: string | null;
+}
+
+export interface ScoreBreakdown {
+  questionId: number;
+  score: number;
+  maxScore: number;
+  length: number;
+  minLength: number;
+  meetsLength: boolean;
+  concepts: ConceptResult[];
+  summary: string;
+}
+
+export interface ScoreTotals {
+  score: number;
+  /* Sum of points over the questions that have a rubric */
+  maxScore: number;
+  breakdowns: Map<number, ScoreBreakdown>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/*
+  Keywords match whole words, plus a plural "s" or "es", so "ram" matches "RAM"
+  but not "random". Other word forms have to be listed as keywords of their own.
+*/
+function findKeyword(answer: string, keywords: string[]): string | null {
+  for (const keyword of keywords) {
+    const pattern = new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(keyword.trim())}(?:e?s)?(?![\\p{L}\\p{N}])`, 'iu');
+    if (pattern.test(answer)) return keyword;
+  }
+  return null;
+}
+
+/* Returns null for questions without a rubric; those are scored by reviewers only */
+export function scoreAnswer(question: ScorableQuestion, answer: string): ScoreBreakdown | null {
+  const { rubric } = question;
+  if (!rubric) return null;
+
+  const text = answer.trim();
+  const meetsLength = text.length >= rubric.minLength;
+  const concepts = rubric.concepts.map(concept => ({
+    label: concept.label,
+    weight: concept.weight,
+    matched: meetsLength ? findKeyword(text, concept.keywords) : null,
+  }));
+
+  const totalWeight = concepts.reduce((sum, c) => sum + c.weight, 0);
+  const matchedWeight = concepts.reduce((sum, c) => sum + (c.matched ? c.weight : 0), 0);
+  // A rubric with only a length requirement awards full points once it is met
+  const ratio = !meetsLength ? 0 : totalWeight === 0 ? 1 : matchedWeight / totalWeight;
+  const score = Math.round(question.points * ratio);
+
+  const matchedCount = concepts.filter(c => c.matched).length;
+  const summary = !meetsLength
+    ? `Too short: ${text.length}/${rubric.minLength} characters`
+    : concepts.length === 0
+      ? 'Meets the length requirement'
+      : `Covered ${matchedCount} of ${concepts.length} key concepts`;
+
+  return {
+    questionId: question.id,
+    score,
+    maxScore: question.points,
+    length: text.length,
+    minLength: rubric.minLength,
+    meetsLength,
+    concepts,
+    summary,
+  };
+}
+
+/* Scores each submitted question exactly once */
+export function scoreSubmissions(
+  questions: ScorableQuestion[],
+  answers: Record<number, string>,
+  submitted: Set<number>,
+): ScoreTotals {
+  const breakdowns = new Map<number, ScoreBreakdown>();
+  let score = 0;
+  let maxScore = 0;
+
+  for (const question of questions) {
+    if (!question.rubric) continue;
+    maxScore += question.points;
+    if (!submitted.has(question.id)) continue;
+    const breakdown = scoreAnswer(question, answers[question.id] ?? '');
+    if (!breakdown) continue;
+    breakdowns.set(question.id, breakdown);
+    score += breakdown.score;
+  }
+
+  return { score, maxScore, breakdowns };
+}
+
+export const toAutoScore = (breakdown: ScoreBreakdown): AutoScore => ({
+  score: breakdown.score,
+  maxScore: breakdown.maxScore,
+  summary: breakdown.summary,
+});
@@ -0,0 +1,36 @@
+/*
+  Reviewer session for /admin. The passcode is checked by the submissions
+  backend, which issues the token kept here; the backend must verify that
+  token on every reviewer endpoint, since anything in the browser can be read.
+*/
+
+const STORAGE_KEY = 'acm-motherboard:admin-session';
+
+export function getAdminToken(): string | null {
+  try {
+    return sessionStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function isAdminSignedIn(): boolean {
+  return getAdminToken() !== null;
+}
+
+/* Keeps the token the backend issued at sign-in */
+export function startAdminSession(token: string) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, token);
+  } catch {
+    // Session storage blocked: the sign-in lasts until the page reloads
+  }
+}
+
+export function signOutAdmin() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
@@ -0,0 +1,33 @@
+import { isDomainId, type DomainId } from '../domains/registry';
+
+/*
+  The domain the 3D board last flew into, kept for the browser tab so that
+  coming back to / can fly the camera back out of it.
+*/
+
+const FLY_OUT_KEY = 'acm-motherboard:fly-out';
+
+export function rememberFlyOut(domain: DomainId) {
+  try {
+    sessionStorage.setItem(FLY_OUT_KEY, domain);
+  } catch {
+    // Session storage blocked: the board just opens at its normal framing
+  }
+}
+
+export function peekFlyOut(): DomainId | null {
+  try {
+    const stored = sessionStorage.getItem(FLY_OUT_KEY);
+    return isDomainId(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearFlyOut() {
+  try {
+    sessionStorage.removeItem(FLY_OUT_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
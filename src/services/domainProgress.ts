@@ -0,0 +1,39 @@
+import { DOMAINS, loadQuestionBank, type Domain } from '../data/questionBank';
+import { loadDraft } from './draftStore';
+
+/*
+  How far a candidate has got in each domain, read from the saved drafts so
+  the board can show what is left without asking the server.
+*/
+
+export interface DomainProgress {
+  /* Ids of the bank's questions in order, with whether each has been submitted */
+  questions: { id: number, submitted: boolean }[];
+  submitted: number;
+  total: number;
+}
+
+export const isComplete = (progress: DomainProgress) => progress.total > 0 && progress.submitted === progress.total;
+
+export function loadDomainProgress(domain: Domain): DomainProgress {
+  const submitted = new Set(loadDraft(domain).submitted);
+  let ids: number[];
+  try {
+    ids = loadQuestionBank(domain).questions.map(question => question.id);
+  } catch (error) {
+    // A broken bank is reported on its own page; the board just shows no progress
+    console.warn(`Could not read ${domain} questions for board progress`, error);
+    ids = [];
+  }
+
+  const questions = ids.map(id => ({ id, submitted: submitted.has(id) }));
+  return {
+    questions,
+    submitted: questions.filter(question => question.submitted).length,
+    total: questions.length,
+  };
+}
+
+export function loadBoardProgress(): Record<Domain, DomainProgress> {
+  return Object.fromEntries(DOMAINS.map(domain => [domain, loadDomainProgress(domain)])) as Record<Domain, DomainProgress>;
+}
@@ -0,0 +1,51 @@
+import type { Domain } from '../data/questionBank';
+
+/*
+  Answer drafts, persisted per domain in localStorage so a refresh or a trip
+  back to the motherboard doesn't throw away a candidate's work.
+*/
+
+export interface DomainDraft<A = string> {
+  answers: Record<number, A>;
+  submitted: number[];
+  currentIndex: number;
+  savedAt: number | null;
+}
+
+const STORAGE_PREFIX = 'acm-motherboard:draft:';
+
+const storageKey = (domain: Domain) => `${STORAGE_PREFIX}${domain}`;
+
+export function emptyDraft<A = string>(): DomainDraft<A> {
+  return { answers: {}, submitted: [], currentIndex: 0, savedAt: null };
+}
+
+export function loadDraft<A = string>(domain: Domain): DomainDraft<A> {
+  try {
+    const raw = localStorage.getItem(storageKey(domain));
+    if (!raw) return emptyDraft<A>();
+
+    const parsed = JSON.parse(raw) as Partial<DomainDraft<A>>;
+    return {
+      answers: parsed.answers ?? {},
+      submitted: Array.isArray(parsed.submitted) ? parsed.submitted : [],
+      currentIndex: typeof parsed.currentIndex === 'number' ? parsed.currentIndex : 0,
+      savedAt: typeof parsed.savedAt === 'number' ? parsed.savedAt : null,
+    };
+  } catch (error) {
+    console.warn(`Could not restore ${domain} draft, starting fresh`, error);
+    return emptyDraft<A>();
+  }
+}
+
+/* Returns the timestamp written, or null when storage is unavailable (private mode, quota) */
+export function saveDraft<A>(domain: Domain, draft: DomainDraft<A>): number | null {
+  const savedAt = Date.now();
+  try {
+    localStorage.setItem(storageKey(domain), JSON.stringify({ ...draft, savedAt }));
+    return savedAt;
+  } catch (error) {
+    console.warn(`Could not save ${domain} draft`, error);
+    return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { getAdminToken } from '../adminSession';
+import { createLocalAdapter } from './localAdapter';
+import { createRestAdapter } from './restAdapter';
+import { enqueue, flushQueue } from './retryQueue';
+import { SubmissionError, type SubmissionAdapter, type SubmissionPayload } from './types';
+
+export type {
+  AnswerReview,
+  AutoScore,
+  CandidateDecision,
+  CandidateRef,
+  CandidateStatus,
+  ReviewData,
+  SubmissionAdapter,
+  SubmissionPayload,
+  SubmissionReceipt,
+} from './types';
+export { SubmissionError } from './types';
+export { createLocalAdapter } from './localAdapter';
+export { createRestAdapter } from './restAdapter';
+export { pendingCount, subscribe as subscribeToQueue, takeRejected } from './retryQueue';
+
+const RETRY_INTERVAL_MS = 15000;
+
+/* VITE_SUBMISSION_API_URL selects the REST backend; without it answers go to the local mock store */
+const apiUrl = import.meta.env.VITE_SUBMISSION_API_URL;
+
+let adapter: SubmissionAdapter = apiUrl
+  ? createRestAdapter({ baseUrl: apiUrl, getAuthToken: getAdminToken })
+  : createLocalAdapter();
+
+export function getSubmissionAdapter() {
+  return adapter;
+}
+
+export function setSubmissionAdapter(next: SubmissionAdapter) {
+  adapter = next;
+}
+
+export type SubmitStatus = 'sent' | 'queued';
+
+/*
+  Network and server failures are queued for retry so no answer is lost. A
+  request the backend refuses outright (a 4xx) would fail again on retry, so
+  its SubmissionError is thrown to the caller instead.
+*/
+export async function submitAnswer(payload: SubmissionPayload): Promise<SubmitStatus> {
+  try {
+    await adapter.submit(payload);
+    return 'sent';
+  } catch (error) {
+    if (error instanceof SubmissionError && !error.retryable) throw error;
+    console.warn(`Submission for ${payload.domain} Q${payload.questionId} failed, queued for retry`, error);
+    enqueue(payload, error);
+    return 'queued';
+  }
+}
+
+// Background retries: periodically, and right away when connectivity returns
+if (typeof window !== 'undefined') {
+  window.setInterval(() => void flushQueue(adapter), RETRY_INTERVAL_MS);
+  window.addEventListener('online', () => void flushQueue(adapter, true));
+  void flushQueue(adapter);
+}
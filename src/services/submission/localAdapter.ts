@@ -0,0 +1,99 @@
+import {
+  SubmissionError,
+  type AnswerReview,
+  type CandidateDecision,
+  type ReviewData,
+  type SubmissionAdapter,
+  type SubmissionPayload,
+  type SubmissionReceipt,
+} from './types';
+
+/*
+  Development stand-in for the backend. Submissions, reviews and decisions
+  are kept in localStorage (falling back to memory) so they survive reloads
+  and can be reviewed offline from the same browser.
+
+  There is nowhere in the browser to keep a reviewer secret, so reviewing
+  the local store is off unless VITE_LOCAL_REVIEW=true opts in; with it on,
+  any passcode is accepted.
+*/
+
+const STORAGE_KEY = 'acm-motherboard:local-submissions';
+const REVIEWS_KEY = 'acm-motherboard:local-reviews';
+const DECISIONS_KEY = 'acm-motherboard:local-decisions';
+
+interface LocalAdapterOptions {
+  latencyMs?: number;
+}
+
+function createCollection<T>(key: string) {
+  let memory: T[] = [];
+
+  const read = (): T[] => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) as T[] : memory;
+    } catch {
+      return memory;
+    }
+  };
+
+  const write = (items: T[]) => {
+    memory = items;
+    try {
+      localStorage.setItem(key, JSON.stringify(items));
+    } catch {
+      // Memory copy is enough for a dev session
+    }
+  };
+
+  return { read, write };
+}
+
+export function createLocalAdapter({ latencyMs = 250 }: LocalAdapterOptions = {}): SubmissionAdapter & {
+  list(): SubmissionPayload[];
+} {
+  const submissions = createCollection<SubmissionPayload>(STORAGE_KEY);
+  const reviews = createCollection<AnswerReview>(REVIEWS_KEY);
+  const decisions = createCollection<CandidateDecision>(DECISIONS_KEY);
+
+  const delay = () => new Promise(resolve => window.setTimeout(resolve, latencyMs));
+
+  return {
+    name: 'local',
+
+    list: submissions.read,
+
+    async submit(payload: SubmissionPayload): Promise<SubmissionReceipt> {
+      await delay();
+      // Same id means a retried submission: replace instead of duplicating
+      submissions.write([...submissions.read().filter(s => s.id !== payload.id), payload]);
+      return { id: payload.id, receivedAt: new Date().toISOString() };
+    },
+
+    async signInReviewer(): Promise<string> {
+      await delay();
+      if (import.meta.env.VITE_LOCAL_REVIEW !== 'true') {
+        throw new SubmissionError('Reviewing needs the submissions backend, or VITE_LOCAL_REVIEW=true for the local store', false);
+      }
+      return 'local';
+    },
+
+    async loadReviewData(): Promise<ReviewData> {
+      await delay();
+      return { submissions: submissions.read(), reviews: reviews.read(), decisions: decisions.read() };
+    },
+
+    async saveReview(review: AnswerReview): Promise<AnswerReview> {
+      await delay();
+      reviews.write([...reviews.read().filter(r => r.submissionId !== review.submissionId), review]);
+      return review;
+    },
+
+    async setCandidateStatus(decision: CandidateDecision): Promise<CandidateDecision> {
+      await delay();
+      decisions.write([...decisions.read().filter(d => d.candidateId !== decision.candidateId), decision]);
+      return decision;
+    },
+  };
+}
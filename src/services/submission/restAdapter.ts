@@ -0,0 +1,97 @@
+import {
+  SubmissionError,
+  type AnswerReview,
+  type CandidateDecision,
+  type ReviewData,
+  type SubmissionAdapter,
+  type SubmissionPayload,
+  type SubmissionReceipt,
+} from './types';
+
+interface RestAdapterOptions {
+  baseUrl: string;
+  timeoutMs?: number;
+  /* Reviewer session token issued by signInReviewer, sent as the bearer token to the reviewer endpoints */
+  getAuthToken?: () => string | null;
+}
+
+/* Client errors won't succeed on retry, except timeouts and rate limiting */
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+export function createRestAdapter({ baseUrl, timeoutMs = 10000, getAuthToken }: RestAdapterOptions): SubmissionAdapter {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (method: string, path: string, body?: unknown, authenticated = false) => {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), timeoutMs);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = authenticated ? getAuthToken?.() : null;
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new SubmissionError(`Network error during ${method} ${path}: ${(error as Error).message}`);
+    } finally {
+      window.clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new SubmissionError(`Server rejected ${method} ${path} (${response.status})`, isRetryableStatus(response.status), response.status);
+    }
+    return response.json().catch(() => ({})) as Promise<unknown>;
+  };
+
+  return {
+    name: 'rest',
+
+    async submit(payload: SubmissionPayload): Promise<SubmissionReceipt> {
+      const body = await request('POST', '/submissions', payload) as Partial<SubmissionReceipt>;
+      return {
+        id: body.id ?? payload.id,
+        receivedAt: body.receivedAt ?? new Date().toISOString(),
+      };
+    },
+
+    async signInReviewer(passcode: string): Promise<string> {
+      let body: { token?: string };
+      try {
+        body = await request('POST', '/reviewer/session', { passcode }) as { token?: string };
+      } catch (error) {
+        if (error instanceof SubmissionError && (error.status === 401 || error.status === 403)) {
+          throw new SubmissionError('Incorrect passcode', false, error.status);
+        }
+        throw error;
+      }
+      if (!body.token) throw new SubmissionError('The server did not issue a reviewer session', false);
+      return body.token;
+    },
+
+    async loadReviewData(): Promise<ReviewData> {
+      const body = await request('GET', '/reviews', undefined, true) as Partial<ReviewData>;
+      return {
+        submissions: body.submissions ?? [],
+        reviews: body.reviews ?? [],
+        decisions: body.decisions ?? [],
+      };
+    },
+
+    async saveReview(review: AnswerReview): Promise<AnswerReview> {
+      const path = `/submissions/${encodeURIComponent(review.submissionId)}/review`;
+      const body = await request('PUT', path, review, true) as Partial<AnswerReview>;
+      return { ...review, ...body };
+    },
+
+    async setCandidateStatus(decision: CandidateDecision): Promise<CandidateDecision> {
+      const path = `/candidates/${encodeURIComponent(decision.candidateId)}/status`;
+      const body = await request('PUT', path, decision, true) as Partial<CandidateDecision>;
+      return { ...decision, ...body };
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import type { Domain } from '../../data/questionBank';
+import { SubmissionError, type SubmissionAdapter, type SubmissionPayload } from './types';
+
+/*
+  Failed submissions are parked here (persisted, so a closed tab doesn't lose
+  them) and retried with exponential backoff until the adapter accepts them.
+*/
+
+interface QueueEntry {
+  payload: SubmissionPayload;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string;
+  /* Permanently refused by the backend; no longer retried, and kept until the domain's page reopens the question */
+  rejected?: boolean;
+}
+
+const STORAGE_KEY = 'acm-motherboard:submission-queue';
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+let entries: QueueEntry[] = readEntries();
+const listeners = new Set<() => void>();
+let flushing = false;
+
+function readEntries(): QueueEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as QueueEntry[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function setEntries(next: QueueEntry[]) {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn('Could not persist submission queue', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+const backoff = (attempts: number) => Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+
+export function enqueue(payload: SubmissionPayload, error: unknown) {
+  const existing = entries.find(e => e.payload.id === payload.id);
+  const attempts = (existing?.attempts ?? 0) + 1;
+  const entry: QueueEntry = {
+    payload,
+    attempts,
+    nextAttemptAt: Date.now() + backoff(attempts),
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+  setEntries([...entries.filter(e => e.payload.id !== payload.id), entry]);
+}
+
+/* Entries still waiting for a retry; rejected ones stay stored but no longer count */
+export function pendingCount() {
+  return entries.filter(e => !e.rejected).length;
+}
+
+/* Removes and returns one candidate's refused entries for a domain, so its page can tell them and reopen the questions */
+export function takeRejected(domain: Domain, candidateId: string) {
+  const taken = entries.filter(e => e.rejected && e.payload.domain === domain && e.payload.candidate.id === candidateId);
+  if (taken.length > 0) setEntries(entries.filter(e => !taken.includes(e)));
+  return taken.map(e => ({ questionId: e.payload.questionId, error: e.lastError }));
+}
+
+export function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/* Retries every entry that is due. `force` ignores the backoff (e.g. when the browser comes back online). */
+export async function flushQueue(adapter: SubmissionAdapter, force = false) {
+  if (flushing) return;
+  flushing = true;
+
+  try {
+    const due = entries.filter(e => !e.rejected && (force || e.nextAttemptAt <= Date.now()));
+    for (const entry of due) {
+      try {
+        await adapter.submit(entry.payload);
+        setEntries(entries.filter(e => e.payload.id !== entry.payload.id));
+      } catch (error) {
+        if (error instanceof SubmissionError && !error.retryable) {
+          console.error(`Submission ${entry.payload.id} was rejected permanently`, error);
+          setEntries(entries.map(e => e.payload.id === entry.payload.id
+            ? { ...e, rejected: true, lastError: error.message }
+            : e));
+        } else {
+          enqueue(entry.payload, error);
+        }
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
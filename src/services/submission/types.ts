@@ -0,0 +1,84 @@
+import type { Domain } from '../../data/questionBank';
+
+export interface CandidateRef {
+  id: string;
+  name?: string;
+  email?: string;
+  rollNumber?: string;
+}
+
+/* Score computed on the client (judge or rubric); advisory only, since the client can forge it */
+export interface AutoScore {
+  score: number;
+  maxScore: number;
+  summary: string;
+}
+
+export interface SubmissionPayload {
+  /* Generated on the client so a backend can de-duplicate retried submissions */
+  id: string;
+  candidate: CandidateRef;
+  domain: Domain;
+  questionId: number;
+  answer: string;
+  explanation?: string;
+  /* Programming language of a code answer */
+  language?: string;
+  autoScore?: AutoScore;
+  /* ISO timestamps: when the candidate pressed submit, and when the draft was last autosaved */
+  submittedAt: string;
+  draftSavedAt: string | null;
+}
+
+export interface SubmissionReceipt {
+  id: string;
+  receivedAt: string;
+}
+
+/* Reviewer's verdict on one submitted answer */
+export interface AnswerReview {
+  submissionId: string;
+  /* null until the reviewer enters one; otherwise 0..question points */
+  score: number | null;
+  comment: string;
+  reviewedAt: string;
+}
+
+export type CandidateStatus = 'pending' | 'shortlisted' | 'rejected';
+
+export interface CandidateDecision {
+  candidateId: string;
+  status: CandidateStatus;
+  decidedAt: string;
+}
+
+/* Everything the review dashboard needs in one round trip */
+export interface ReviewData {
+  submissions: SubmissionPayload[];
+  reviews: AnswerReview[];
+  decisions: CandidateDecision[];
+}
+
+export interface SubmissionAdapter {
+  readonly name: string;
+  submit(payload: SubmissionPayload): Promise<SubmissionReceipt>;
+  /* Trades the reviewer passcode for a session token; the passcode is only ever checked by the backend */
+  signInReviewer(passcode: string): Promise<string>;
+  /* Reviewer side; requires the session token on a real backend */
+  loadReviewData(): Promise<ReviewData>;
+  saveReview(review: AnswerReview): Promise<AnswerReview>;
+  setCandidateStatus(decision: CandidateDecision): Promise<CandidateDecision>;
+}
+
+export class SubmissionError extends Error {
+  readonly retryable: boolean;
+  /* HTTP status when the server answered; absent for network errors */
+  readonly status?: number;
+
+  constructor(message: string, retryable = true, status?: number) {
+    super(message);
+    this.name = 'SubmissionError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
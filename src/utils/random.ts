@@ -0,0 +1,30 @@
+/*
+  Seeded pseudo-random numbers for procedural board detail. A seed always
+  produces the same sequence, so screenshots and shared links show the same board.
+*/
+
+export type Random = () => number;
+
+export const DEFAULT_BOARD_SEED = 'acm';
+
+/* FNV-1a: turns a seed string into a 32-bit state */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/* mulberry32, returns floats in [0, 1) like Math.random */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}